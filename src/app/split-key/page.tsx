@@ -0,0 +1,17 @@
+import { SplitKeyCombine } from '@/ui/components/vanity/split-key-combine'
+
+export default function Page() {
+  return (
+    <div className="container mx-auto py-10">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Split-Key Combine</h1>
+        <p className="mt-2 text-gray-500 dark:text-gray-400">
+          Let someone else search a vanity address for you without ever seeing its private key:
+          share your public key, then add the partial key they find to your secret here.
+        </p>
+      </div>
+
+      <SplitKeyCombine />
+    </div>
+  )
+}
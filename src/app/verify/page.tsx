@@ -0,0 +1,17 @@
+import { AddressVerifier } from '@/ui/components/vanity/address-verifier'
+
+export default function Page() {
+  return (
+    <div className="container mx-auto py-10">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Verify</h1>
+        <p className="mt-2 text-gray-500 dark:text-gray-400">
+          Before funding a vanity address, make sure its private key, mnemonic or keystore file
+          really opens it. Everything is derived locally and the key is never shown.
+        </p>
+      </div>
+
+      <AddressVerifier />
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { InvalidCliArgumentError } from '../lib/errors/vanity'
+import { defaultVanityOptions } from '../lib/vanity/defaults'
+import { parseCliArgs } from './args'
+
+describe('parseCliArgs', () => {
+  test('maps flags onto a pattern and options', () => {
+    const config = parseCliArgs([
+      '--prefix',
+      'dead',
+      '--suffix',
+      'beef',
+      '--count',
+      '3',
+      '--threads',
+      '32',
+      '--case-sensitive',
+    ])
+    expect(config?.patterns).toEqual([
+      expect.objectContaining({
+        startsWith: 'dead',
+        endsWith: 'beef',
+        count: 3,
+        caseSensitive: true,
+        prefixSuffixMode: 'and',
+      }),
+    ])
+    expect(config?.options).toEqual(defaultVanityOptions)
+    expect(config?.threads).toBe(32)
+    expect(config?.format).toBe('csv')
+    expect(config?.out).toBeNull()
+  })
+
+  test('reads mode and goal options', () => {
+    const config = parseCliArgs(['--mode', 'mnemonic', '--words', '24', '--goal', 'score'])
+    expect(config?.options.mode).toBe('mnemonic')
+    expect(config?.options.mnemonic.wordCount).toBe(24)
+    expect(config?.options.goal).toBe('score')
+  })
+
+  test('returns null for --help', () => {
+    expect(parseCliArgs(['--help'])).toBeNull()
+  })
+
+  test('rejects invalid and unknown flags', () => {
+    expect(() => parseCliArgs(['--prefix', 'xyz'])).toThrow(InvalidCliArgumentError)
+    expect(() => parseCliArgs(['--count', '0'])).toThrow('--count: Count must be at least 1')
+    expect(() => parseCliArgs(['--mode', 'create2'])).toThrow('create2 needs --deployer')
+    expect(() => parseCliArgs(['--unknown'])).toThrow(InvalidCliArgumentError)
+  })
+
+  test('rejects patterns the workers cannot compile', () => {
+    expect(() => parseCliArgs(['--pattern', 'zz'])).toThrow(InvalidCliArgumentError)
+    expect(() => parseCliArgs(['--pattern', 'zz'])).toThrow(/^--pattern: /)
+    expect(parseCliArgs(['--pattern', 'dead'])?.patterns[0].pattern).toBe('dead')
+  })
+
+  test('bounds the thread count', () => {
+    expect(() => parseCliArgs(['--threads', '257'])).toThrow(
+      '--threads: Threads must be at most 256',
+    )
+  })
+})
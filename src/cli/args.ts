@@ -0,0 +1,293 @@
+import type { KeystoreKdf } from '../lib/vanity/keystore'
+import type { VanityConfig, VanityOptions } from '../lib/vanity/types'
+import { availableParallelism } from 'node:os'
+import { parseArgs } from 'node:util'
+import { isAddress } from 'viem'
+import { z } from 'zod'
+import { InvalidCliArgumentError, InvalidPatternError } from '../lib/errors/vanity'
+import { defaultVanityConfig, defaultVanityOptions } from '../lib/vanity/defaults'
+import { derivationPathRegex } from '../lib/vanity/mnemonic'
+import { compilePattern } from '../lib/vanity/pattern'
+import { maxAnchoredLength } from '../lib/vanity/structure'
+
+export type CliFormat = 'csv' | 'json' | 'keystore'
+
+export interface CliConfig {
+  patterns: VanityConfig[]
+  options: VanityOptions
+  threads: number
+  format: CliFormat
+  /** File for CSV and JSON, stdout when missing; directory for keystore files, cwd when missing */
+  out: string | null
+  kdf: KeystoreKdf
+}
+
+export const usage = `Usage: pnpm vanity [options]
+
+Pattern
+  --prefix <hex>           Address starts with
+  --suffix <hex>           Address ends with
+  --either                 Prefix or suffix is enough
+  --includes <hex,...>     Address contains each token (--any-include: one of them)
+  --pattern <pattern>      Positional mask or regex-style pattern
+  --case-sensitive         Letters must match the checksum casing
+  --dictionary <where>     Bundled hex word at start, end or either
+  --run <n>                Run of n repeated characters
+  --palindrome <n>         Palindromic prefix or suffix of n characters
+  --mirror <n>             Prefix of n characters repeated as the suffix
+  --charset <set>          any, digits or letters
+  --count <n>              Addresses to find (default 1)
+
+Mode
+  --mode <mode>            privateKey, create, create2, mnemonic, splitKey, safe or smartAccount
+  --nonce <n>              create: deployer nonce
+  --deployer <address>     create2: factory address
+  --init-code-hash <hash>  create2: keccak256 of the init code
+  --path <path>            mnemonic: derivation path of the first account
+  --accounts <n>           mnemonic: accounts checked per mnemonic
+  --words <12|24>          mnemonic: phrase length
+  --public-key <hex>       splitKey: requester's public key
+  --owners <address,...>   safe: owner addresses
+  --threshold <n>          safe: signatures required (default 1)
+  --singleton <address>    safe: Safe implementation (default v1.4.1 Safe)
+  --factory <address>      safe: proxy factory (default v1.4.1 SafeProxyFactory)
+                           smartAccount: account factory
+  --fallback-handler <a>   safe: fallback handler (default v1.4.1 handler)
+  --proxy-code <hex>       safe: the factory's proxyCreationCode()
+                           smartAccount: proxy init code, see --template
+  --template <template>    smartAccount: simpleAccount, kernel or custom (default simpleAccount)
+  --implementation <a>     smartAccount: simpleAccount implementation
+  --owner <address>        smartAccount: simpleAccount owner
+  --init-data <hex>        smartAccount: kernel initialization calldata
+
+Goal
+  --goal <goal>            match, score or lookAlike (default match)
+  --metric <metric>        score: leadingZeroBytes or zeroBytes
+  --target <n>             score: stop at this score, 0 runs until interrupted
+  --top <n>                score: leaderboard size
+  --look-alike <address>   lookAlike: address to resemble
+  --rule <rule>            lookAlike: affixes or hamming
+  --keep-prefix <n>        lookAlike: leading characters kept
+  --keep-suffix <n>        lookAlike: trailing characters kept
+  --distance <n>           lookAlike: characters allowed to differ
+
+Output
+  --threads <n>            Worker threads, at most 256 (default: every core)
+  --format <format>        csv, json or keystore (default csv)
+  --out <path>             File for csv/json (default stdout), directory for keystore files
+  --kdf <kdf>              keystore: scrypt or pbkdf2, password from VANITY_KEYSTORE_PASSWORD
+  --help                   Show this help
+`
+
+// Far beyond any machine's cores, only there so a typo cannot spawn thousands of threads
+const maxThreads = 256
+
+const hexSchema = (label: string) =>
+  z.string().regex(/^[0-9a-fA-F]*$/, `${label} must be hex characters (0-9, a-f)`)
+
+const integerSchema = (label: string, min: number, max = Number.MAX_SAFE_INTEGER) =>
+  z.coerce
+    .number<string>()
+    .int(`${label} must be an integer`)
+    .min(min, `${label} must be at least ${min}`)
+    .max(max, `${label} must be at most ${max}`)
+
+const argsShape = z.object({
+  prefix: hexSchema('Prefix').default(''),
+  suffix: hexSchema('Suffix').default(''),
+  either: z.boolean().default(false),
+  includes: z
+    .string()
+    .regex(/^[0-9a-fA-F,\s]*$/, 'Includes must be hex tokens separated by commas')
+    .default(''),
+  'any-include': z.boolean().default(false),
+  pattern: z.string().default(''),
+  'case-sensitive': z.boolean().default(false),
+  dictionary: z.enum(['off', 'start', 'end', 'either']).default('off'),
+  run: integerSchema('Run', 0, 40).default(0),
+  palindrome: integerSchema('Palindrome', 0, maxAnchoredLength).default(0),
+  mirror: integerSchema('Mirror', 0, maxAnchoredLength).default(0),
+  charset: z.enum(['any', 'digits', 'letters']).default('any'),
+  count: integerSchema('Count', 1).default(1),
+
+  mode: z
+    .enum(['privateKey', 'create', 'create2', 'mnemonic', 'splitKey', 'safe', 'smartAccount'])
+    .default('privateKey'),
+  nonce: integerSchema('Nonce', 0).default(0),
+  deployer: z.string().default(''),
+  'init-code-hash': z.string().default(''),
+  path: z
+    .string()
+    .regex(derivationPathRegex, "Path must look like m/44'/60'/0'/0/0")
+    .default(defaultVanityOptions.mnemonic.path),
+  accounts: integerSchema('Accounts', 1, 100).default(1),
+  words: z.enum(['12', '24']).default('12'),
+  'public-key': z.string().default(''),
+  owners: z.string().default(''),
+  threshold: integerSchema('Threshold', 1).default(defaultVanityOptions.safe.threshold),
+  singleton: z.string().default(defaultVanityOptions.safe.singleton),
+  factory: z.string().optional(),
+  'fallback-handler': z.string().default(defaultVanityOptions.safe.fallbackHandler),
+  'proxy-code': z.string().default(''),
+  template: z.enum(['simpleAccount', 'kernel', 'custom']).default('simpleAccount'),
+  implementation: z.string().default(''),
+  owner: z.string().default(''),
+  'init-data': z.string().default(''),
+
+  goal: z.enum(['match', 'score', 'lookAlike']).default('match'),
+  metric: z.enum(['leadingZeroBytes', 'zeroBytes']).default('leadingZeroBytes'),
+  target: integerSchema('Target', 0, 20).default(0),
+  top: integerSchema('Top', 1, 100).default(defaultVanityOptions.score.top),
+  'look-alike': z.string().default(''),
+  rule: z.enum(['affixes', 'hamming']).default('affixes'),
+  'keep-prefix': integerSchema('Kept prefix', 0, 40).default(defaultVanityOptions.lookAlike.prefix),
+  'keep-suffix': integerSchema('Kept suffix', 0, 40).default(defaultVanityOptions.lookAlike.suffix),
+  distance: integerSchema('Distance', 0, 40).default(defaultVanityOptions.lookAlike.distance),
+
+  threads: integerSchema('Threads', 1, maxThreads).optional(),
+  format: z.enum(['csv', 'json', 'keystore']).default('csv'),
+  out: z.string().optional(),
+  kdf: z.enum(['scrypt', 'pbkdf2']).default('scrypt'),
+})
+
+const argsSchema = argsShape
+  .refine(args => args.prefix.length + args.suffix.length <= 40, {
+    message: 'Prefix and suffix must be 40 characters or less together',
+  })
+  .refine(args => args.mode !== 'create2' || isAddress(args.deployer, { strict: false }), {
+    message: 'create2 needs --deployer <address>',
+  })
+  .refine(args => args.mode !== 'create2' || /^0x[0-9a-fA-F]{64}$/.test(args['init-code-hash']), {
+    message: 'create2 needs --init-code-hash <32-byte hex>',
+  })
+  .refine(args => args.mode !== 'splitKey' || args['public-key'] !== '', {
+    message: 'splitKey needs --public-key <hex>',
+  })
+  .refine(args => args.mode !== 'safe' || args.owners !== '', {
+    message: 'safe needs --owners <address,...>',
+  })
+  .refine(args => args.mode !== 'safe' || args['proxy-code'] !== '', {
+    message: "safe needs --proxy-code <hex>, the factory's proxyCreationCode()",
+  })
+  .refine(args => args.mode !== 'smartAccount' || isAddress(args.factory ?? ''), {
+    message: 'smartAccount needs --factory <address>',
+  })
+  .refine(args => args.mode !== 'smartAccount' || args['proxy-code'] !== '', {
+    message: 'smartAccount needs --proxy-code <hex>',
+  })
+  .refine(
+    args =>
+      args.mode !== 'smartAccount' ||
+      args.template !== 'simpleAccount' ||
+      (args.implementation !== '' && args.owner !== ''),
+    { message: 'simpleAccount needs --implementation <address> and --owner <address>' },
+  )
+  .refine(
+    args => args.mode !== 'smartAccount' || args.template !== 'kernel' || args['init-data'] !== '',
+    { message: 'kernel needs --init-data <hex>' },
+  )
+  .refine(args => args.goal !== 'lookAlike' || isAddress(args['look-alike'], { strict: false }), {
+    message: 'lookAlike needs --look-alike <address>',
+  })
+  // Same parser as the workers, so a bad pattern fails here and not in the first progress report
+  .superRefine((args, ctx) => {
+    try {
+      compilePattern(args.pattern, args['case-sensitive'])
+    } catch (error) {
+      if (!(error instanceof InvalidPatternError)) throw error
+      ctx.addIssue({ code: 'custom', path: ['pattern'], message: error.message })
+    }
+  })
+
+const booleanFlags = new Set(['either', 'any-include', 'case-sensitive', 'help'])
+
+/** Options of `pnpm vanity`, or `null` when only the help was asked for. */
+export function parseCliArgs(argv: string[]): CliConfig | null {
+  let values
+  try {
+    ;({ values } = parseArgs({
+      args: argv,
+      options: Object.fromEntries(
+        [...Object.keys(argsShape.shape), 'help'].map(key => [
+          key,
+          { type: booleanFlags.has(key) ? 'boolean' : 'string' } as const,
+        ]),
+      ),
+    }))
+  } catch (error) {
+    throw new InvalidCliArgumentError(error instanceof Error ? error.message : String(error))
+  }
+  if (values.help === true) return null
+
+  const parsed = argsSchema.safeParse(values)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    const flag = issue.path.length > 0 ? `--${issue.path.join('.')}: ` : ''
+    throw new InvalidCliArgumentError(`${flag}${issue.message}`)
+  }
+  const args = parsed.data
+
+  const pattern: VanityConfig = {
+    ...defaultVanityConfig,
+    count: args.count,
+    startsWith: args.prefix,
+    endsWith: args.suffix,
+    prefixSuffixMode: args.either ? 'or' : 'and',
+    includes: args.includes,
+    caseSensitive: args['case-sensitive'],
+    includesMode: args['any-include'] ? 'any' : 'all',
+    pattern: args.pattern,
+    dictionary: args.dictionary,
+    structure: {
+      run: args.run,
+      palindrome: args.palindrome,
+      mirror: args.mirror,
+      charset: args.charset,
+    },
+  }
+  const options: VanityOptions = {
+    goal: args.goal,
+    score: { metric: args.metric, target: args.target, top: args.top },
+    lookAlike: {
+      target: args['look-alike'],
+      rule: args.rule,
+      prefix: args['keep-prefix'],
+      suffix: args['keep-suffix'],
+      distance: args.distance,
+    },
+    mode: args.mode,
+    create: { nonce: args.nonce },
+    create2: { deployer: args.deployer, initCodeHash: args['init-code-hash'] },
+    mnemonic: {
+      path: args.path,
+      accounts: args.accounts,
+      wordCount: args.words === '24' ? 24 : 12,
+    },
+    splitKey: { publicKey: args['public-key'] },
+    safe: {
+      owners: args.owners,
+      threshold: args.threshold,
+      singleton: args.singleton,
+      factory: args.factory ?? defaultVanityOptions.safe.factory,
+      fallbackHandler: args['fallback-handler'],
+      proxyCreationCode: args['proxy-code'],
+    },
+    smartAccount: {
+      template: args.template,
+      factory: args.factory ?? '',
+      proxyInitCode: args['proxy-code'],
+      implementation: args.implementation,
+      owner: args.owner,
+      initData: args['init-data'],
+    },
+  }
+
+  return {
+    patterns: [pattern],
+    options,
+    threads: args.threads ?? Math.min(availableParallelism(), maxThreads),
+    format: args.format,
+    out: args.out ?? null,
+    kdf: args.kdf,
+  }
+}
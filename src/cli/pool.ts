@@ -0,0 +1,107 @@
+import type {
+  Unversioned,
+  VanityConfig,
+  VanityOptions,
+  VanityResult,
+  WorkerMessage,
+  WorkerResponse,
+} from '../lib/vanity/types'
+import { Worker } from 'node:worker_threads'
+import { VanityWorkerError } from '../lib/errors/vanity'
+import { workerProtocolVersion } from '../lib/vanity/types'
+
+export type CliPoolHandlers = {
+  onProgress: (attempts: number) => void
+  onFound: (result: VanityResult) => void
+}
+
+export interface CliPool {
+  /** Settles once every quota is met or the score target is reached, or after `stop` */
+  done: Promise<void>
+  stop: () => Promise<void>
+}
+
+/**
+ * Runs a single job over `threads` worker threads, with the quota rules of the browser's pool: each
+ * pattern retires once its count is found, and a score search ends at its target.
+ */
+export function runCliPool(
+  patterns: VanityConfig[],
+  options: VanityOptions,
+  threads: number,
+  handlers: CliPoolHandlers,
+): CliPool {
+  const jobId = 1
+  const found = patterns.map(() => 0)
+  let settled = false
+  let resolveDone: () => void = () => {}
+  let rejectDone: (error: Error) => void = () => {}
+  const done = new Promise<void>((resolve, reject) => {
+    resolveDone = resolve
+    rejectDone = reject
+  })
+
+  const workers = Array.from(
+    { length: threads },
+    () => new Worker(new URL('./vanity.worker.ts', import.meta.url)),
+  )
+
+  const post = (message: Unversioned<WorkerMessage>) => {
+    workers.forEach(worker => worker.postMessage({ ...message, version: workerProtocolVersion }))
+  }
+
+  const finish = async (error?: Error) => {
+    if (settled) return
+    settled = true
+    await Promise.all(workers.map(worker => worker.terminate()))
+    if (error != null) {
+      rejectDone(error)
+    } else {
+      resolveDone()
+    }
+  }
+
+  const handleResponse = (response: WorkerResponse) => {
+    if (settled || response.version !== workerProtocolVersion || response.jobId !== jobId) return
+
+    if (response.type === 'found') {
+      const patternIndex = response.result.patternIndex ?? 0
+      const pattern = patterns.at(patternIndex)
+      // Workers may still report a pattern for a moment after it was retired
+      if (pattern == null || found[patternIndex] >= pattern.count) return
+      found[patternIndex]++
+      handlers.onFound(response.result)
+      if (found[patternIndex] < pattern.count) return
+
+      if (patterns.every((pattern, i) => found[i] >= pattern.count)) {
+        void finish()
+      } else {
+        post({ type: 'retire', jobId, patternIndex })
+      }
+    } else if (response.type === 'best') {
+      handlers.onFound(response.result)
+      const { target } = options.score
+      if (target > 0 && (response.result.score ?? 0) >= target) void finish()
+    } else if (response.type === 'progress') {
+      handlers.onProgress(response.attempts)
+    } else if (response.type === 'error') {
+      void finish(
+        new VanityWorkerError(`Search worker failed: ${response.error.message}`, {
+          data: response.error,
+        }),
+      )
+    }
+  }
+
+  workers.forEach(worker => {
+    worker.on('message', handleResponse)
+    worker.on('error', (error: Error) => {
+      void finish(
+        new VanityWorkerError(`Search worker crashed: ${error.message}`, { cause: error }),
+      )
+    })
+  })
+  post({ type: 'start', jobId, patterns, options })
+
+  return { done, stop: () => finish() }
+}
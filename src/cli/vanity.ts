@@ -0,0 +1,169 @@
+import type { CliConfig } from './args'
+import type { VanityResult } from '../lib/vanity/types'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { InvalidCliArgumentError } from '../lib/errors/vanity'
+import { formatDuration } from '../lib/utils/formatters'
+import { describePattern, groupByPattern } from '../lib/vanity/batch'
+import { getExpectedAttempts, getMatchProbability } from '../lib/vanity/estimate'
+import { encryptKeystoreFiles, formatCSV, formatJSON } from '../lib/vanity/export'
+import { getLookAlikeProbability } from '../lib/vanity/look-alike'
+import { getScoreProbability } from '../lib/vanity/score'
+import { parseCliArgs, usage } from './args'
+import { runCliPool } from './pool'
+
+const passwordVariable = 'VANITY_KEYSTORE_PASSWORD'
+const minPasswordLength = 8
+
+const log = (line: string) => process.stderr.write(`${line}\n`)
+
+// Progress redraws a single line on a terminal and appends lines in logs
+const logProgress = (line: string) => {
+  if (process.stderr.isTTY) {
+    process.stderr.write(`\r${line}\x1b[K`)
+  } else {
+    log(line)
+  }
+}
+
+const endProgress = () => {
+  if (process.stderr.isTTY) process.stderr.write('\n')
+}
+
+/** Attempts still expected, as in the generator's estimate: the hardest remaining quota. */
+function getRemainingAttempts({ patterns, options }: CliConfig, results: VanityResult[]) {
+  if (options.goal === 'score') {
+    if (options.score.target === 0) return null
+    const none = patterns.reduce((none, p) => none * (1 - getMatchProbability(p)), 1)
+    return getExpectedAttempts(
+      (1 - none) * getScoreProbability(options.score.metric, options.score.target),
+    )
+  }
+  const lookAlikeProbability =
+    options.goal === 'lookAlike' ? getLookAlikeProbability(options.lookAlike) : 1
+  return Math.max(
+    ...groupByPattern(results, patterns).map(group =>
+      getExpectedAttempts(
+        getMatchProbability(group.pattern) * lookAlikeProbability,
+        Math.max(group.pattern.count - group.results.length, 0),
+      ),
+    ),
+  )
+}
+
+async function writeResults(config: CliConfig, results: VanityResult[], password: string) {
+  if (config.format === 'keystore') {
+    const directory = config.out ?? '.'
+    const files = await encryptKeystoreFiles(results, password, config.kdf, (done, total) =>
+      logProgress(`Encrypting keystores ${done}/${total}`),
+    )
+    const entries = Object.entries(files)
+    if (entries.length === 0) {
+      log(`No spendable keys in ${config.options.mode} mode, nothing written.`)
+      return
+    }
+    await mkdir(directory, { recursive: true })
+    for (const [fileName, content] of entries) {
+      await writeFile(join(directory, fileName), content)
+    }
+    endProgress()
+    log(`Wrote ${entries.length} keystore file${entries.length === 1 ? '' : 's'} to ${directory}`)
+    return
+  }
+
+  const content =
+    config.format === 'json'
+      ? formatJSON(results, config.patterns)
+      : formatCSV(results, config.patterns)
+  if (config.out == null) {
+    process.stdout.write(`${content}\n`)
+  } else {
+    await writeFile(config.out, `${content}\n`)
+    log(`Wrote ${results.length} result${results.length === 1 ? '' : 's'} to ${config.out}`)
+  }
+}
+
+async function main() {
+  const config = parseCliArgs(process.argv.slice(2))
+  if (config == null) {
+    process.stdout.write(usage)
+    return
+  }
+
+  // Asked before the search, so hours of work never end on a missing password
+  const password = process.env[passwordVariable] ?? ''
+  if (config.format === 'keystore' && password.length < minPasswordLength) {
+    throw new InvalidCliArgumentError(
+      `Keystore export needs a password of at least ${minPasswordLength} characters in ${passwordVariable}.`,
+    )
+  }
+
+  const { patterns, options, threads } = config
+  log(
+    `Searching ${patterns.map(describePattern).join(', ')} (${options.mode}, ${options.goal}) on ${threads} thread${threads === 1 ? '' : 's'}`,
+  )
+
+  let results: VanityResult[] = []
+  let attempts = 0
+  const startTime = Date.now()
+
+  const pool = runCliPool(patterns, options, threads, {
+    onProgress: batch => {
+      attempts += batch
+    },
+    onFound: result => {
+      if (options.goal === 'score') {
+        // Leaderboard: best first, ties keep the earlier find
+        results = [...results, result]
+          .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+          .slice(0, options.score.top)
+      } else {
+        results = [...results, result]
+      }
+    },
+  })
+
+  const reportProgress = () => {
+    const seconds = (Date.now() - startTime) / 1000
+    const speed = seconds > 0 ? Math.round(attempts / seconds) : 0
+    const remaining = getRemainingAttempts(config, results)
+    const status =
+      options.goal === 'score'
+        ? `best ${results[0]?.score ?? '-'}`
+        : `found ${results.length}/${patterns.reduce((sum, p) => sum + p.count, 0)}`
+    const eta = remaining != null && speed > 0 ? formatDuration(remaining / speed) : '-'
+    logProgress(
+      `${attempts.toLocaleString()} attempts, ${speed.toLocaleString()}/s, ${status}, ETA ${eta}`,
+    )
+  }
+  const progressTimer = setInterval(reportProgress, 1000)
+
+  // Ctrl+C ends the search but still writes whatever was found
+  const interrupt = () => {
+    endProgress()
+    log('Interrupted, writing the results found so far.')
+    void pool.stop()
+  }
+  process.once('SIGINT', interrupt)
+
+  try {
+    await pool.done
+  } finally {
+    clearInterval(progressTimer)
+    process.off('SIGINT', interrupt)
+  }
+  reportProgress()
+  endProgress()
+
+  await writeResults(config, results, password)
+}
+
+main().catch((error: unknown) => {
+  if (error instanceof InvalidCliArgumentError) {
+    log(`${error.message}\nRun with --help for the options.`)
+    process.exitCode = 2
+    return
+  }
+  log(error instanceof Error ? error.message : String(error))
+  process.exitCode = 1
+})
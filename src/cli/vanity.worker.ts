@@ -0,0 +1,13 @@
+import type { WorkerMessage } from '../lib/vanity/types'
+import { parentPort } from 'node:worker_threads'
+import { InternalError } from '../lib/errors/common'
+import { createVanityWorker } from '../lib/vanity/worker'
+
+if (parentPort == null) {
+  throw new InternalError('The vanity worker must run in a worker thread.')
+}
+const port = parentPort
+
+const handleMessage = createVanityWorker(response => port.postMessage(response))
+
+port.on('message', (message: WorkerMessage) => handleMessage(message))
@@ -0,0 +1,21 @@
+import type { Address, Hex } from 'viem'
+import { readContract } from '@wagmi/core'
+import type { ChainId } from '@/configs/chains'
+import { wagmiConfig } from '../utils/wagmi'
+import { safeProxyFactoryAbi } from '../vanity/safe'
+
+export type GetProxyCreationCodeParams = {
+  chainId: ChainId
+  factory: Address
+}
+
+/** Creation code of the factory's proxies, the part of the Safe init code that is not the singleton. */
+export async function getProxyCreationCode(params: GetProxyCreationCodeParams): Promise<Hex> {
+  const code = await readContract(wagmiConfig, {
+    chainId: params.chainId,
+    address: params.factory,
+    abi: safeProxyFactoryAbi,
+    functionName: 'proxyCreationCode',
+  })
+  return code
+}
@@ -0,0 +1,54 @@
+import type { VanitySession } from '../vanity/session'
+
+const databaseName = 'vanity'
+const databaseVersion = 1
+const sessionsStore = 'sessions'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  databasePromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(databaseName, databaseVersion)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(sessionsStore, { keyPath: 'id' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      databasePromise = null
+      reject(request.error)
+    }
+  })
+  return databasePromise
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const database = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = createRequest(
+      database.transaction(sessionsStore, mode).objectStore(sessionsStore),
+    )
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/** Every saved session, most recently updated first. */
+export async function listSessions(): Promise<VanitySession[]> {
+  const sessions = await runRequest<VanitySession[]>('readonly', store => store.getAll())
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function putSession(session: VanitySession): Promise<void> {
+  await runRequest('readwrite', store => store.put(session))
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(id))
+}
+
+export async function clearSessions(): Promise<void> {
+  await runRequest('readwrite', store => store.clear())
+}
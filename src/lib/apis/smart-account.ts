@@ -0,0 +1,23 @@
+import type { Address } from 'viem'
+import { readContract } from '@wagmi/core'
+import type { ChainId } from '@/configs/chains'
+import { wagmiConfig } from '../utils/wagmi'
+import { simpleAccountFactoryAbi } from '../vanity/smart-account'
+
+export type GetAccountImplementationParams = {
+  chainId: ChainId
+  factory: Address
+}
+
+/** Account implementation behind the proxies of a SimpleAccountFactory. */
+export async function getAccountImplementation(
+  params: GetAccountImplementationParams,
+): Promise<Address> {
+  const implementation = await readContract(wagmiConfig, {
+    chainId: params.chainId,
+    address: params.factory,
+    abi: simpleAccountFactoryAbi,
+    functionName: 'accountImplementation',
+  })
+  return implementation
+}
@@ -0,0 +1,98 @@
+import type { BaseErrorOptions } from './base'
+import { BaseError } from './base'
+
+export class InvalidPatternError extends BaseError {
+  name = 'InvalidPatternError'
+
+  constructor(message = 'Invalid pattern.', options: BaseErrorOptions = {}) {
+    super(message, { ...options, needFix: options.needFix ?? false })
+  }
+}
+
+export class InvalidPublicKeyError extends BaseError {
+  name = 'InvalidPublicKeyError'
+
+  constructor(message = 'Invalid public key.', options: BaseErrorOptions = {}) {
+    super(message, { ...options, needFix: options.needFix ?? false })
+  }
+}
+
+export class InvalidKeystoreError extends BaseError {
+  name = 'InvalidKeystoreError'
+
+  constructor(message = 'Invalid keystore file.', options: BaseErrorOptions = {}) {
+    super(message, { ...options, needFix: options.needFix ?? false })
+  }
+}
+
+export class KeystorePasswordError extends BaseError {
+  name = 'KeystorePasswordError'
+
+  constructor(message = 'Wrong keystore password.', options: BaseErrorOptions = {}) {
+    super(message, { ...options, needFix: options.needFix ?? false })
+  }
+}
+
+export class SessionPassphraseError extends BaseError {
+  name = 'SessionPassphraseError'
+
+  constructor(message = 'Wrong session passphrase.', options: BaseErrorOptions = {}) {
+    super(message, { ...options, needFix: options.needFix ?? false })
+  }
+}
+
+export class SessionSaveError extends BaseError {
+  name = 'SessionSaveError'
+
+  constructor(message = 'Could not save the session.', options: BaseErrorOptions = {}) {
+    super(message, options)
+  }
+}
+
+export class VanityWorkerError extends BaseError {
+  name = 'VanityWorkerError'
+
+  constructor(message = 'Search worker failed.', options: BaseErrorOptions = {}) {
+    super(message, options)
+  }
+}
+
+export class InvalidPrivateKeyError extends BaseError {
+  name = 'InvalidPrivateKeyError'
+
+  constructor(message = 'Invalid private key.', options: BaseErrorOptions = {}) {
+    super(message, { ...options, needFix: options.needFix ?? false })
+  }
+}
+
+export class InvalidMnemonicError extends BaseError {
+  name = 'InvalidMnemonicError'
+
+  constructor(message = 'Invalid mnemonic.', options: BaseErrorOptions = {}) {
+    super(message, { ...options, needFix: options.needFix ?? false })
+  }
+}
+
+export class InvalidCliArgumentError extends BaseError {
+  name = 'InvalidCliArgumentError'
+
+  constructor(message = 'Invalid argument.', options: BaseErrorOptions = {}) {
+    super(message, { ...options, needFix: options.needFix ?? false })
+  }
+}
+
+export class InvalidSafeSetupError extends BaseError {
+  name = 'InvalidSafeSetupError'
+
+  constructor(message = 'Invalid Safe setup.', options: BaseErrorOptions = {}) {
+    super(message, { ...options, needFix: options.needFix ?? false })
+  }
+}
+
+export class InvalidAccountFactoryError extends BaseError {
+  name = 'InvalidAccountFactoryError'
+
+  constructor(message = 'Invalid account factory.', options: BaseErrorOptions = {}) {
+    super(message, { ...options, needFix: options.needFix ?? false })
+  }
+}
@@ -0,0 +1,111 @@
+import type { SessionKey, VanitySession } from '../vanity/session'
+import type { VanityResult } from '../vanity/types'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useCallback, useRef, useState } from 'react'
+import { clearSessions, deleteSession, listSessions, putSession } from '../apis/sessions'
+import { decryptSessionResults, deriveSessionKey, encryptSessionResults } from '../vanity/session'
+
+const sessionsQueryKey = ['vanity-sessions']
+
+export function useVanitySessions() {
+  return useQuery({
+    queryKey: sessionsQueryKey,
+    queryFn: async () => {
+      return await listSessions()
+    },
+    staleTime: Infinity,
+  })
+}
+
+export function usePutSession() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (session: VanitySession) => {
+      await putSession(session)
+      queryClient.invalidateQueries({ queryKey: sessionsQueryKey })
+    },
+  })
+}
+
+export function useDeleteSession() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await deleteSession(id)
+      queryClient.invalidateQueries({ queryKey: sessionsQueryKey })
+    },
+  })
+}
+
+export function useClearSessions() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async () => {
+      await clearSessions()
+      queryClient.invalidateQueries({ queryKey: sessionsQueryKey })
+    },
+  })
+}
+
+export type VanitySessionSnapshot = Omit<
+  VanitySession,
+  'id' | 'createdAt' | 'updatedAt' | 'resultCount' | 'salt' | 'results'
+> & { results: VanityResult[] }
+
+type CurrentSession = SessionKey & { id: string; createdAt: number }
+
+/**
+ * The session the generator is writing to. Its key stays in memory only; saves are queued so a slow
+ * encryption can never overwrite a newer snapshot.
+ */
+export function useCurrentVanitySession() {
+  const queryClient = useQueryClient()
+  const [current, setCurrent] = useState<CurrentSession | null>(null)
+  const saveQueueRef = useRef(Promise.resolve())
+
+  const begin = useCallback(async (passphrase: string) => {
+    const key = await deriveSessionKey(passphrase)
+    setCurrent({ ...key, id: crypto.randomUUID(), createdAt: Date.now() })
+  }, [])
+
+  /** Decrypts a saved session without switching to it, so a wrong passphrase changes nothing. */
+  const unlock = useCallback(async (session: VanitySession, passphrase: string) => {
+    const key = await deriveSessionKey(passphrase, session.salt)
+    const results = await decryptSessionResults(key, session.results)
+    return { key, results }
+  }, [])
+
+  /** Writes the following saves to `session`, with the key `unlock` derived for it. */
+  const open = useCallback((session: VanitySession, key: SessionKey) => {
+    setCurrent({ ...key, id: session.id, createdAt: session.createdAt })
+  }, [])
+
+  const close = useCallback(() => setCurrent(null), [])
+
+  const save = useCallback(
+    (snapshot: VanitySessionSnapshot) => {
+      if (current == null) return
+      const task = saveQueueRef.current.then(async () => {
+        await putSession({
+          ...snapshot,
+          id: current.id,
+          createdAt: current.createdAt,
+          updatedAt: Date.now(),
+          resultCount: snapshot.results.length,
+          salt: current.salt,
+          results: await encryptSessionResults(current, snapshot.results),
+        })
+        queryClient.invalidateQueries({ queryKey: sessionsQueryKey })
+      })
+      // A failed save is reported by the caller but must not block the ones after it
+      saveQueueRef.current = task.catch(() => {})
+      return task
+    },
+    [current, queryClient],
+  )
+
+  return { sessionId: current?.id ?? null, begin, unlock, open, close, save }
+}
@@ -0,0 +1,203 @@
+import type {
+  Unversioned,
+  VanityConfig,
+  VanityOptions,
+  VanityResult,
+  WorkerMessage,
+  WorkerResponse,
+} from '../vanity/types'
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react'
+import { VanityWorkerError } from '../errors/vanity'
+import { workerProtocolVersion } from '../vanity/types'
+
+export const maxThreads = 64
+
+const subscribeNothing = () => () => {}
+
+export function useHardwareConcurrency(): number {
+  return useSyncExternalStore(
+    subscribeNothing,
+    () => Math.min(Math.max(navigator.hardwareConcurrency ?? 1, 1), maxThreads),
+    () => 1,
+  )
+}
+
+export type VanityWorkerPoolHandlers = {
+  onProgress: (workerIndex: number, attempts: number) => void
+  onFound: (result: VanityResult) => void
+  onFinished: () => void
+  onError: (error: VanityWorkerError) => void
+}
+
+type PoolJob = {
+  id: number
+  patterns: VanityConfig[]
+  options: VanityOptions
+  paused: boolean
+  /** Matches per pattern, shared across every worker so the pool stops on the combined counts */
+  found: number[]
+}
+
+/**
+ * Runs one search job at a time across `threads` workers. Workers outlive jobs; every message is
+ * tagged with its job id, so anything a worker sent for an earlier job is dropped.
+ */
+export function useVanityWorkerPool(handlers: VanityWorkerPoolHandlers) {
+  const workersRef = useRef<Worker[]>([])
+  const jobRef = useRef<PoolJob | null>(null)
+  const lastJobIdRef = useRef(0)
+  const handlersRef = useRef(handlers)
+
+  useEffect(() => {
+    handlersRef.current = handlers
+  })
+
+  const post = useCallback((worker: Worker, message: Unversioned<WorkerMessage>) => {
+    worker.postMessage({ ...message, version: workerProtocolVersion })
+  }, [])
+
+  const stop = useCallback(() => {
+    const job = jobRef.current
+    if (job == null) return
+    jobRef.current = null
+    workersRef.current.forEach(worker => post(worker, { type: 'stop', jobId: job.id }))
+  }, [post])
+
+  const fail = useCallback(
+    (error: VanityWorkerError) => {
+      stop()
+      handlersRef.current.onError(error)
+    },
+    [stop],
+  )
+
+  const handleResponse = useCallback(
+    (workerIndex: number, response: WorkerResponse) => {
+      const job = jobRef.current
+      if (response.version !== workerProtocolVersion || job == null || response.jobId !== job.id) {
+        return
+      }
+
+      if (response.type === 'found') {
+        const patternIndex = response.result.patternIndex ?? 0
+        const pattern = job.patterns.at(patternIndex)
+        // Workers may still report a pattern for a moment after it was retired
+        if (pattern == null || job.found[patternIndex] >= pattern.count) return
+        job.found[patternIndex]++
+        handlersRef.current.onFound(response.result)
+        if (job.found[patternIndex] < pattern.count) return
+
+        if (job.patterns.every((pattern, i) => job.found[i] >= pattern.count)) {
+          stop()
+          handlersRef.current.onFinished()
+        } else {
+          workersRef.current.forEach(worker =>
+            post(worker, { type: 'retire', jobId: job.id, patternIndex }),
+          )
+        }
+      } else if (response.type === 'best') {
+        handlersRef.current.onFound(response.result)
+        const { target } = job.options.score
+        if (target > 0 && (response.result.score ?? 0) >= target) {
+          stop()
+          handlersRef.current.onFinished()
+        }
+      } else if (response.type === 'progress') {
+        handlersRef.current.onProgress(workerIndex, response.attempts)
+      } else if (response.type === 'error') {
+        fail(
+          new VanityWorkerError(`Search worker failed: ${response.error.message}`, {
+            data: response.error,
+          }),
+        )
+      }
+    },
+    [fail, post, stop],
+  )
+
+  const startWorkerJob = useCallback(
+    (worker: Worker, job: PoolJob) => {
+      post(worker, { type: 'start', jobId: job.id, patterns: job.patterns, options: job.options })
+      job.found.forEach((found, patternIndex) => {
+        if (found >= job.patterns[patternIndex].count) {
+          post(worker, { type: 'retire', jobId: job.id, patternIndex })
+        }
+      })
+      if (job.paused) post(worker, { type: 'pause', jobId: job.id })
+    },
+    [post],
+  )
+
+  /** Grows or shrinks the pool to `threads` workers, starting new ones on the current job. */
+  const configure = useCallback(
+    (threads: number) => {
+      const workers = workersRef.current
+      while (workers.length > threads) {
+        workers.pop()?.terminate()
+      }
+      while (workers.length < threads) {
+        const worker = new Worker(new URL('@/workers/vanity.worker.ts', import.meta.url))
+        worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+          // Looked up per message, as a crashed worker leaving the pool shifts the ones after it
+          const workerIndex = workersRef.current.indexOf(worker)
+          if (workerIndex !== -1) handleResponse(workerIndex, e.data)
+        }
+        worker.onerror = e => {
+          e.preventDefault()
+          // A crashed worker cannot take another job: drop it so the next `configure` replaces it
+          worker.terminate()
+          const workerIndex = workersRef.current.indexOf(worker)
+          if (workerIndex !== -1) workersRef.current.splice(workerIndex, 1)
+          fail(new VanityWorkerError(`Search worker crashed: ${e.message}`))
+        }
+        workers.push(worker)
+        if (jobRef.current != null) startWorkerJob(worker, jobRef.current)
+      }
+    },
+    [fail, handleResponse, startWorkerJob],
+  )
+
+  /** `found` carries the matches per pattern of a resumed session over into the new job. */
+  const start = useCallback(
+    (patterns: VanityConfig[], options: VanityOptions, threads: number, found: number[] = []) => {
+      stop()
+      const job: PoolJob = {
+        id: ++lastJobIdRef.current,
+        patterns,
+        options,
+        paused: false,
+        found: patterns.map((_, i) => found[i] ?? 0),
+      }
+      configure(threads)
+      jobRef.current = job
+      workersRef.current.forEach(worker => startWorkerJob(worker, job))
+    },
+    [configure, startWorkerJob, stop],
+  )
+
+  const setPaused = useCallback(
+    (paused: boolean) => {
+      const job = jobRef.current
+      if (job == null || job.paused === paused) return
+      job.paused = paused
+      workersRef.current.forEach(worker =>
+        post(worker, { type: paused ? 'pause' : 'resume', jobId: job.id }),
+      )
+    },
+    [post],
+  )
+
+  const pause = useCallback(() => setPaused(true), [setPaused])
+  const resume = useCallback(() => setPaused(false), [setPaused])
+
+  useEffect(
+    () => () => {
+      jobRef.current = null
+      workersRef.current.forEach(worker => worker.terminate())
+      workersRef.current = []
+    },
+    [],
+  )
+
+  return { start, pause, resume, configure, stop }
+}
@@ -0,0 +1,56 @@
+import type { VanityPreferences } from './vanity'
+import type { VanityConfig, VanityOptions } from '../vanity/types'
+import { defaultVanityConfig, defaultVanityOptions } from '../vanity/defaults'
+import { defaultVanityPreferences, parseStoredPreferences } from './vanity'
+
+describe('parseStoredPreferences', () => {
+  test('keeps current preferences as stored', () => {
+    const stored = {
+      ...defaultVanityPreferences,
+      patterns: [{ ...defaultVanityConfig, startsWith: 'dead' }],
+      threads: 4,
+      exportFormat: 'json',
+    }
+    expect(parseStoredPreferences(stored)).toEqual(stored)
+  })
+
+  test('fills fields missing from stored patterns and options with their defaults', () => {
+    // As stored before the dictionary, structure and look-alike settings existed
+    const pattern: Partial<VanityConfig> = { ...defaultVanityConfig, endsWith: 'beef' }
+    delete pattern.dictionary
+    delete pattern.structure
+    const options: Partial<VanityOptions> = { ...defaultVanityOptions, mode: 'create' }
+    delete options.lookAlike
+
+    expect(
+      parseStoredPreferences({ ...defaultVanityPreferences, patterns: [pattern], options }),
+    ).toEqual({
+      ...defaultVanityPreferences,
+      patterns: [{ ...defaultVanityConfig, endsWith: 'beef' }],
+      options: { ...defaultVanityOptions, mode: 'create' },
+    })
+  })
+
+  test('falls back to the defaults for versions it cannot migrate', () => {
+    const unversioned: Partial<VanityPreferences> = { ...defaultVanityPreferences, threads: 4 }
+    delete unversioned.version
+    expect(parseStoredPreferences(unversioned)).toBe(defaultVanityPreferences)
+    expect(parseStoredPreferences({ ...defaultVanityPreferences, version: 0, threads: 4 })).toBe(
+      defaultVanityPreferences,
+    )
+    expect(parseStoredPreferences({ ...defaultVanityPreferences, version: 99, threads: 4 })).toBe(
+      defaultVanityPreferences,
+    )
+  })
+
+  test('falls back to the defaults for malformed values', () => {
+    expect(parseStoredPreferences(null)).toBe(defaultVanityPreferences)
+    expect(parseStoredPreferences('{')).toBe(defaultVanityPreferences)
+    expect(parseStoredPreferences({ ...defaultVanityPreferences, patterns: [] })).toBe(
+      defaultVanityPreferences,
+    )
+    expect(parseStoredPreferences({ ...defaultVanityPreferences, threads: 0 })).toBe(
+      defaultVanityPreferences,
+    )
+  })
+})
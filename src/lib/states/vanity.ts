@@ -0,0 +1,296 @@
+import type { VanityConfig, VanityOptions } from '../vanity/types'
+import type { Atom, SetStateAction } from 'jotai'
+import type { ZodType } from 'zod'
+import { atom } from 'jotai'
+import { z } from 'zod'
+import { atomWithHashParam, atomWithStorage, hashParamsAtom } from '../utils/jotai'
+import { deserialize, deserializeString, serialize } from '../utils/json'
+import { defaultVanityConfig, defaultVanityOptions } from '../vanity/defaults'
+import { defaultDerivationPath } from '../vanity/mnemonic'
+
+// Shape only: values that parse but break a rule still pre-fill the form and show its errors there
+
+const structureSchema = z.object({
+  run: z.number(),
+  palindrome: z.number(),
+  mirror: z.number(),
+  charset: z.enum(['any', 'digits', 'letters']),
+})
+
+const configSchemas = {
+  count: z.number(),
+  startsWith: z.string(),
+  endsWith: z.string(),
+  prefixSuffixMode: z.enum(['and', 'or']),
+  includes: z.string(),
+  caseSensitive: z.boolean(),
+  includesMode: z.enum(['all', 'any']),
+  pattern: z.string(),
+  dictionary: z.enum(['off', 'start', 'end', 'either']),
+  structure: structureSchema,
+} satisfies { [Key in keyof VanityConfig]: ZodType<VanityConfig[Key], unknown> }
+
+const optionsSchemas = {
+  goal: z.enum(['match', 'score', 'lookAlike']),
+  score: z.object({
+    metric: z.enum(['leadingZeroBytes', 'zeroBytes']),
+    target: z.number(),
+    top: z.number(),
+  }),
+  lookAlike: z.object({
+    target: z.string(),
+    rule: z.enum(['affixes', 'hamming']),
+    prefix: z.number(),
+    suffix: z.number(),
+    distance: z.number(),
+  }),
+  mode: z.enum(['privateKey', 'create', 'create2', 'mnemonic', 'splitKey', 'safe', 'smartAccount']),
+  create: z.object({ nonce: z.number() }),
+  create2: z.object({ deployer: z.string(), initCodeHash: z.string() }),
+  mnemonic: z.object({
+    path: z.string(),
+    accounts: z.number(),
+    wordCount: z.union([z.literal(12), z.literal(24)]),
+  }),
+  splitKey: z.object({ publicKey: z.string() }),
+  safe: z.object({
+    owners: z.string(),
+    threshold: z.number(),
+    singleton: z.string(),
+    factory: z.string(),
+    fallbackHandler: z.string(),
+    proxyCreationCode: z.string(),
+  }),
+  smartAccount: z.object({
+    template: z.enum(['simpleAccount', 'kernel', 'custom']),
+    factory: z.string(),
+    proxyInitCode: z.string(),
+    implementation: z.string(),
+    owner: z.string(),
+    initData: z.string(),
+  }),
+} satisfies { [Key in keyof VanityOptions]: ZodType<VanityOptions[Key], unknown> }
+
+const patternsKey = 'patterns'
+
+/** Every hash param the generator reads; nothing else ever goes into a shared link. */
+export const vanityHashKeys: string[] = [
+  ...Object.keys(configSchemas),
+  patternsKey,
+  ...Object.keys(optionsSchemas),
+]
+
+// Defaults stay out of the hash, so links only carry what was changed
+function setHashFields<Value extends object>(
+  hashParams: URLSearchParams,
+  value: Value,
+  defaultValue: Value,
+) {
+  ;(Object.keys(defaultValue) as (keyof Value & string)[]).forEach(key => {
+    const serialized = serialize(value[key])
+    if (serialized === serialize(defaultValue[key])) {
+      hashParams.delete(key)
+    } else {
+      hashParams.set(key, serialized)
+    }
+  })
+}
+
+/**
+ * One hash param per field of an object, like `startsWith=dead&count=3`. Writes go to the hash in
+ * one update, browsers throttle history changes.
+ */
+function atomWithHashParamFields<Value extends object>(
+  schemas: { [Key in keyof Value]: ZodType<Value[Key], unknown> },
+  defaultValue: Value,
+) {
+  const keys = Object.keys(schemas) as (keyof Value & string)[]
+  const fieldAtoms = {} as Record<keyof Value, Atom<unknown>>
+  keys.forEach(key => {
+    // String fields keep the raw param: `#startsWith=1e5` is hex, not the number 100000
+    fieldAtoms[key] = atomWithHashParam(
+      key,
+      schemas[key],
+      defaultValue[key],
+      typeof defaultValue[key] === 'string' ? deserializeString : deserialize,
+    )
+  })
+
+  const fieldsAtom = atom(
+    get => Object.fromEntries(keys.map(key => [key, get(fieldAtoms[key])])) as Value,
+    (get, set, update: SetStateAction<Value>) => {
+      const value = typeof update === 'function' ? update(get(fieldsAtom)) : update
+      const hashParams = new URLSearchParams(get(hashParamsAtom) ?? undefined)
+      setHashFields(hashParams, value, defaultValue)
+      set(hashParamsAtom, hashParams)
+    },
+  )
+  return fieldsAtom
+}
+
+export type ExportFormat = 'csv' | 'json'
+
+/** `confirm` asks before showing a secret, `direct` shows it on click, `never` only exports it. */
+export type RevealPolicy = 'confirm' | 'direct' | 'never'
+
+export interface VanityPreferences {
+  version: typeof preferencesVersion
+  /** Config of the last visit, restored when a link does not bring its own */
+  patterns: VanityConfig[]
+  options: VanityOptions
+  /** `null` follows the detected core count */
+  threads: number | null
+  exportFormat: ExportFormat
+  revealPolicy: RevealPolicy
+}
+
+/** Bumped whenever stored preferences need a migration, see `preferencesMigrations`. */
+const preferencesVersion = 1
+
+export const defaultVanityPreferences: VanityPreferences = {
+  version: preferencesVersion,
+  patterns: [defaultVanityConfig],
+  options: defaultVanityOptions,
+  threads: null,
+  exportFormat: 'csv',
+  revealPolicy: 'confirm',
+}
+
+// Each entry turns stored preferences of its version into the next version
+const preferencesMigrations: Record<number, (stored: Record<string, unknown>) => unknown> = {}
+
+const migratePreferences = (stored: unknown) => {
+  let value = stored
+  while (
+    typeof value === 'object' &&
+    value != null &&
+    'version' in value &&
+    typeof value.version === 'number' &&
+    value.version in preferencesMigrations
+  ) {
+    value = preferencesMigrations[value.version](value as Record<string, unknown>)
+  }
+  return value
+}
+
+// Fields added to the config later fall back to their defaults instead of dropping the preferences
+const preferencesSchema = z.preprocess(
+  migratePreferences,
+  z.object({
+    version: z.literal(preferencesVersion),
+    patterns: z
+      .array(
+        z
+          .object(configSchemas)
+          .partial()
+          .transform(pattern => ({ ...defaultVanityConfig, ...pattern })),
+      )
+      .min(1),
+    options: z
+      .object(optionsSchemas)
+      .partial()
+      .transform(options => ({ ...defaultVanityOptions, ...options })),
+    threads: z.number().int().min(1).nullable(),
+    exportFormat: z.enum(['csv', 'json']),
+    revealPolicy: z.enum(['confirm', 'direct', 'never']),
+  }),
+)
+
+/** Stored preferences migrated to the current version, or the defaults when they cannot be read. */
+export function parseStoredPreferences(stored: unknown): VanityPreferences {
+  const result = preferencesSchema.safeParse(stored)
+  return result.success ? result.data : defaultVanityPreferences
+}
+
+export const vanityPreferencesAtom = atomWithStorage(
+  'vanity-preferences',
+  preferencesSchema,
+  defaultVanityPreferences,
+)
+
+function atomWithPreference<Key extends keyof VanityPreferences>(key: Key) {
+  return atom(
+    get => get(vanityPreferencesAtom)[key],
+    (get, set, value: VanityPreferences[Key]) => {
+      set(vanityPreferencesAtom, { ...get(vanityPreferencesAtom), [key]: value })
+    },
+  )
+}
+
+export const vanityThreadsAtom = atomWithPreference('threads')
+export const vanityExportFormatAtom = atomWithPreference('exportFormat')
+export const vanityRevealPolicyAtom = atomWithPreference('revealPolicy')
+
+const firstPatternAtom = atomWithHashParamFields(configSchemas, defaultVanityConfig)
+
+// Patterns after the first one, which is spread over readable params
+const extraPatternsAtom = atomWithHashParam(
+  patternsKey,
+  z.array(z.object(configSchemas)),
+  [] as VanityConfig[],
+)
+
+/** Patterns of the generator, kept in the URL hash so a link pre-fills the form. */
+export const vanityPatternsAtom = atom(
+  get => [get(firstPatternAtom), ...get(extraPatternsAtom)],
+  (get, set, update: SetStateAction<VanityConfig[]>) => {
+    const [first = defaultVanityConfig, ...rest] =
+      typeof update === 'function' ? update(get(vanityPatternsAtom)) : update
+    const hashParams = new URLSearchParams(get(hashParamsAtom) ?? undefined)
+    setHashFields(hashParams, first, defaultVanityConfig)
+    setHashFields(hashParams, { [patternsKey]: rest }, { [patternsKey]: [] })
+    set(hashParamsAtom, hashParams)
+    set(vanityPreferencesAtom, prev => ({ ...prev, patterns: [first, ...rest] }))
+  },
+)
+
+const optionsHashAtom = atomWithHashParamFields(optionsSchemas, defaultVanityOptions)
+
+/** Goal and mode options of the generator, kept in the URL hash next to the patterns. */
+export const vanityOptionsAtom = atom(
+  get => get(optionsHashAtom),
+  (get, set, update: SetStateAction<VanityOptions>) => {
+    const options = typeof update === 'function' ? update(get(optionsHashAtom)) : update
+    set(optionsHashAtom, options)
+    set(vanityPreferencesAtom, prev => ({ ...prev, options }))
+  },
+)
+
+/** Pre-fills the form with the last visit's config, unless the link carries a config. */
+export const restoreLastConfigAtom = atom(null, (get, set) => {
+  const hashParams = new URLSearchParams(window.location.hash.replace(/^#/, ''))
+  if (vanityHashKeys.some(key => hashParams.has(key))) return
+  const { patterns, options } = get(vanityPreferencesAtom)
+  set(vanityPatternsAtom, patterns)
+  set(vanityOptionsAtom, options)
+})
+
+/** Hash params of the current config and nothing else: no results, keys or passphrase. */
+export const vanityShareParamsAtom = atom(get => {
+  const hashParams = get(hashParamsAtom)
+  const shared = new URLSearchParams()
+  vanityHashKeys.forEach(key => {
+    const value = hashParams?.get(key)
+    if (value != null) shared.set(key, value)
+  })
+  return shared
+})
+
+/** Link to the generator with the current config, see `vanityShareParamsAtom`. */
+export const vanityShareUrlAtom = atom(get => {
+  if (typeof window === 'undefined') return ''
+  const url = new URL(window.location.href)
+  url.hash = get(vanityShareParamsAtom).toString()
+  return url.toString()
+})
+
+/** Address the verifier expects a key to derive, linked from the results next to their config. */
+export const verifyAddressAtom = atomWithHashParam('address', z.string(), '', deserializeString)
+
+/** Derivation path the verifier checks a mnemonic at, linked from mnemonic results. */
+export const verifyPathAtom = atomWithHashParam(
+  'path',
+  z.string(),
+  defaultDerivationPath,
+  deserializeString,
+)
@@ -1,4 +1,4 @@
-import { formatLongText, formatNumber } from './formatters'
+import { formatDuration, formatLongText, formatNumber } from './formatters'
 
 describe('formatNumber', () => {
   test('type works', () => {
@@ -101,3 +101,21 @@ describe('formatLongText', () => {
     expect(formatLongText('1234567😊900987654321')).toBe('1234567😊...87654321')
   })
 })
+
+describe('formatDuration', () => {
+  test('picks the two largest units', () => {
+    expect(formatDuration(0.2)).toBe('< 1s')
+    expect(formatDuration(42.4)).toBe('42s')
+    expect(formatDuration(192)).toBe('3m 12s')
+    expect(formatDuration(5 * 3600 + 3 * 60 + 59)).toBe('5h 3m')
+    expect(formatDuration(12 * 86400 + 4 * 3600)).toBe('12d 4h')
+    expect(formatDuration(3.2 * 365 * 86400)).toBe('3.2 years')
+    expect(formatDuration(1234567 * 365 * 86400)).toBe('1.23m years')
+  })
+
+  test('defaultText works', () => {
+    expect(formatDuration(null)).toBe('-')
+    expect(formatDuration(NaN, { defaultText: 'n/a' })).toBe('n/a')
+    expect(formatDuration(Infinity)).toBe('∞')
+  })
+})
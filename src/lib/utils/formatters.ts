@@ -216,3 +216,37 @@ export function formatTimeFromNow(
   }
   return formatDistanceToNowStrict(toDate(time), { addSuffix: useSuffix })
 }
+
+export type FormatDurationOptions = {
+  defaultText?: string
+}
+
+export function formatDuration(
+  seconds: number | null | undefined,
+  { defaultText = '-' }: FormatDurationOptions = {},
+): string {
+  if (seconds == null || isNaN(seconds)) {
+    return defaultText
+  }
+  if (seconds === Infinity) {
+    return '∞'
+  }
+  if (seconds < 1) {
+    return '< 1s'
+  }
+
+  const s = Math.round(seconds)
+  if (s < 60) {
+    return `${s}s`
+  }
+  if (s < 3600) {
+    return `${Math.floor(s / 60)}m ${s % 60}s`
+  }
+  if (s < 86400) {
+    return `${Math.floor(s / 3600)}h ${Math.floor((s % 3600) / 60)}m`
+  }
+  if (s < 365 * 86400) {
+    return `${Math.floor(s / 86400)}d ${Math.floor((s % 86400) / 3600)}h`
+  }
+  return `${formatNumber(s / (365 * 86400), { type: 'compact', precision: 3 })} years`
+}
@@ -92,6 +92,7 @@ export function atomWithHashParam<Value, DefaultValue extends Value>(
   key: string,
   schema: ZodType<Value, unknown>,
   defaultValue: DefaultValue,
+  deserializeParam: (hashParam: string) => unknown = deserialize,
 ): WritableAtom<Value, [SetStateActionWithReset<Value>, options?: SetHashParamOptions], void> {
   const baseAtom = atom(
     get => {
@@ -99,7 +100,7 @@ export function atomWithHashParam<Value, DefaultValue extends Value>(
       if (hashParam == null) {
         return defaultValue
       }
-      return deserialize(hashParam)
+      return deserializeParam(hashParam)
     },
     (get, set, update: SetStateActionWithReset<unknown>, options?: SetHashParamOptions) => {
       const nextValue = typeof update === 'function' ? update(get(baseAtom)) : update
@@ -0,0 +1,15 @@
+import { deserialize, deserializeString, serialize } from './json'
+
+describe('deserializeString', () => {
+  test('keeps hand-typed params that JSON would read as numbers', () => {
+    expect(deserialize('1e5')).toBe(100000)
+    expect(deserializeString('1e5')).toBe('1e5')
+    expect(deserializeString('123456789012345678')).toBe('123456789012345678')
+  })
+
+  test('round-trips serialized strings', () => {
+    ;['dead', '1e5', '1234', 'true', ''].forEach(value => {
+      expect(deserializeString(serialize(value))).toBe(value)
+    })
+  })
+})
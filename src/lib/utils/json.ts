@@ -16,3 +16,12 @@ export function deserialize(string: string): unknown {
     return string
   }
 }
+
+/**
+ * `deserialize` for values that are strings: unquotes what `serialize` quoted and keeps anything
+ * else as typed, so a hand-typed `1e5` or a long run of digits is not read as a number.
+ */
+export function deserializeString(string: string): string {
+  const json = deserialize(string)
+  return typeof json === 'string' ? json : string
+}
@@ -0,0 +1,57 @@
+import { createPatternSet, describePattern, groupByPattern } from './batch'
+import { defaultVanityConfig } from './defaults'
+
+const dead = '0xdead000000000000000000000000000000000000'
+const beef = '0x000000000000000000000000000000000000beef'
+
+describe('createPatternSet', () => {
+  test('matches any active pattern and stops matching retired ones', () => {
+    const set = createPatternSet([
+      { ...defaultVanityConfig, startsWith: 'dead' },
+      { ...defaultVanityConfig, endsWith: 'beef' },
+    ])
+    expect(set.matcher(dead)).not.toBeNull()
+    expect(set.matcher(beef)).not.toBeNull()
+    expect(set.matcher('0x1234000000000000000000000000000000000000')).toBeNull()
+    expect(set.getPatternIndex(dead)).toBe(0)
+    expect(set.getPatternIndex(beef)).toBe(1)
+
+    set.retire(0)
+    expect(set.matcher(dead)).toBeNull()
+    expect(set.getPatternIndex(dead)).toBe(-1)
+    expect(set.matcher(beef)).not.toBeNull()
+  })
+
+  test('attributes a match to the first active pattern', () => {
+    const set = createPatternSet([
+      { ...defaultVanityConfig, startsWith: 'de' },
+      defaultVanityConfig,
+    ])
+    expect(set.getPatternIndex(dead)).toBe(0)
+    set.retire(0)
+    expect(set.getPatternIndex(dead)).toBe(1)
+  })
+})
+
+describe('groupByPattern', () => {
+  test('keeps pattern order and defaults to the first pattern', () => {
+    const patterns = [defaultVanityConfig, { ...defaultVanityConfig, endsWith: 'beef' }]
+    const groups = groupByPattern(
+      [
+        { address: beef, patternIndex: 1, createdAt: 0 },
+        { address: dead, createdAt: 0 },
+      ],
+      patterns,
+    )
+    expect(groups.map(group => group.results.map(r => r.address))).toEqual([[dead], [beef]])
+  })
+})
+
+describe('describePattern', () => {
+  test('works', () => {
+    expect(describePattern(defaultVanityConfig)).toBe('any address')
+    expect(describePattern({ ...defaultVanityConfig, startsWith: 'dead', endsWith: 'beef' })).toBe(
+      '0xdead… …beef',
+    )
+  })
+})
@@ -0,0 +1,64 @@
+import type { AddressMatcher } from './match'
+import type { VanityConfig, VanityResult } from './types'
+import { createAddressMatcher } from './match'
+import { describeStructure, hasStructureRules } from './structure'
+
+/** Several patterns tested against the same candidates, each until its own quota is met. */
+export interface PatternSet {
+  /** Accepts a candidate when any pattern that is still active matches it */
+  matcher: AddressMatcher
+  /** Index of the first active pattern that accepts a checksummed address, -1 if none */
+  getPatternIndex: (address: string) => number
+  /** Stops matching a pattern, e.g. once its quota is filled */
+  retire: (index: number) => void
+}
+
+export function createPatternSet(patterns: VanityConfig[]): PatternSet {
+  const matchers = patterns.map(createAddressMatcher)
+  const active = patterns.map(() => true)
+
+  return {
+    matcher: lowercaseAddress => {
+      for (let i = 0; i < matchers.length; i++) {
+        if (!active[i]) continue
+        const address = matchers[i](lowercaseAddress)
+        if (address != null) return address
+      }
+      return null
+    },
+    getPatternIndex: address =>
+      matchers.findIndex((matcher, i) => active[i] && matcher(address.toLowerCase()) != null),
+    retire: index => {
+      active[index] = false
+    },
+  }
+}
+
+/** Short human readable summary of a pattern, e.g. `0xdead… …beef`. */
+export function describePattern(config: VanityConfig): string {
+  const parts = [
+    config.startsWith !== '' ? `0x${config.startsWith}…` : null,
+    config.endsWith !== '' ? `…${config.endsWith}` : null,
+    config.includes !== '' ? `has ${config.includes}` : null,
+    config.pattern !== '' ? config.pattern : null,
+    config.dictionary !== 'off' ? `hex word (${config.dictionary})` : null,
+    hasStructureRules(config.structure) ? describeStructure(config.structure) : null,
+  ]
+  const description = parts.filter(part => part != null).join(' ')
+  return description !== '' ? description : 'any address'
+}
+
+export interface PatternGroup {
+  patternIndex: number
+  pattern: VanityConfig
+  results: VanityResult[]
+}
+
+/** Results per pattern, in pattern order; results without a pattern index belong to the first. */
+export function groupByPattern(results: VanityResult[], patterns: VanityConfig[]): PatternGroup[] {
+  return patterns.map((pattern, patternIndex) => ({
+    patternIndex,
+    pattern,
+    results: results.filter(result => (result.patternIndex ?? 0) === patternIndex),
+  }))
+}
@@ -0,0 +1,25 @@
+import type { Address, Hex } from 'viem'
+import { getContractAddress } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { createCreateSearch } from './create'
+import { defaultVanityConfig } from './defaults'
+import { createAddressMatcher } from './match'
+
+describe('createCreateSearch', () => {
+  test.each([0, 1, 127, 128, 300, 70000])('derives the contract at nonce %i', nonce => {
+    const { results } = createCreateSearch(
+      createAddressMatcher(defaultVanityConfig),
+      { nonce },
+      8,
+    ).next()
+    expect(results).toHaveLength(8)
+    results.forEach(result => {
+      const deployer = privateKeyToAccount(result.privateKey as Hex).address
+      expect(result.deployer).toBe(deployer)
+      expect(result.nonce).toBe(nonce)
+      expect(getContractAddress({ from: deployer as Address, nonce: BigInt(nonce) })).toBe(
+        result.address,
+      )
+    })
+  })
+})
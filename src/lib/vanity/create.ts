@@ -0,0 +1,55 @@
+import type { AddressMatcher } from './match'
+import type { CreateOptions, VanityResult, VanitySearch } from './types'
+import { keccak_256 } from '@noble/hashes/sha3'
+import { bytesToHex, getContractAddress, numberToHex, toBytes } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { InternalError } from '../errors/common'
+import { createKeyWalker, publicKeyToAddressBytes } from './walker'
+
+function encodeRlpNonce(nonce: number): Uint8Array {
+  if (nonce === 0) return new Uint8Array([0x80])
+  const bytes = toBytes(nonce)
+  if (bytes.length === 1 && bytes[0] < 0x80) return bytes
+  return new Uint8Array([0x80 + bytes.length, ...bytes])
+}
+
+/**
+ * Mines deployer keys whose CREATE contract at `nonce` matches. The RLP list `[sender, nonce]` is
+ * laid out once and only the sender bytes are rewritten per candidate.
+ */
+export function createCreateSearch(
+  matcher: AddressMatcher,
+  { nonce }: CreateOptions,
+  batchSize: number,
+): VanitySearch {
+  const walker = createKeyWalker(batchSize)
+
+  const encodedNonce = encodeRlpNonce(nonce)
+  const rlp = new Uint8Array(2 + 20 + encodedNonce.length)
+  rlp[0] = 0xc0 + 1 + 20 + encodedNonce.length
+  rlp[1] = 0x80 + 20
+  rlp.set(encodedNonce, 22)
+  const sender = rlp.subarray(2, 22)
+
+  return {
+    next: () => {
+      const results: VanityResult[] = []
+
+      walker.step((key, publicKey) => {
+        sender.set(publicKeyToAddressBytes(publicKey))
+
+        const address = matcher(bytesToHex(keccak_256(rlp).subarray(12)))
+        if (address == null) return
+
+        const privateKey = numberToHex(key, { size: 32 })
+        const deployer = privateKeyToAccount(privateKey).address
+        if (getContractAddress({ from: deployer, nonce: BigInt(nonce) }) !== address) {
+          throw new InternalError('CREATE search derived an address that does not match its key.')
+        }
+        results.push({ address, privateKey, deployer, nonce, createdAt: Date.now() })
+      })
+
+      return { attempts: batchSize, results }
+    },
+  }
+}
@@ -0,0 +1,40 @@
+import type { Hex } from 'viem'
+import { getContractAddress, keccak256 } from 'viem'
+import { createCreate2Search } from './create2'
+import { defaultVanityConfig } from './defaults'
+import { createAddressMatcher } from './match'
+
+const deployer = '0x4e59b44847b379578588920cA78FbF26c0B4956C'
+const initCodeHash = keccak256('0x6080604052')
+
+describe('createCreate2Search', () => {
+  test('every salt derives its reported address', () => {
+    const { attempts, results } = createCreate2Search(
+      createAddressMatcher(defaultVanityConfig),
+      { deployer, initCodeHash },
+      16,
+    ).next()
+    expect(attempts).toBe(16)
+    expect(results).toHaveLength(16)
+    results.forEach(result => {
+      expect(result.privateKey).toBeUndefined()
+      expect(
+        getContractAddress({
+          opcode: 'CREATE2',
+          from: deployer,
+          salt: result.salt as Hex,
+          bytecodeHash: initCodeHash,
+        }),
+      ).toBe(result.address)
+    })
+  })
+
+  test('only reports matching addresses', () => {
+    const search = createCreate2Search(
+      createAddressMatcher({ ...defaultVanityConfig, endsWith: 'a' }),
+      { deployer, initCodeHash },
+      256,
+    )
+    search.next().results.forEach(result => expect(result.address.toLowerCase()).toMatch(/a$/))
+  })
+})
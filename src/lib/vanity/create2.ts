@@ -0,0 +1,62 @@
+import type { AddressMatcher } from './match'
+import type { Create2Options, VanityResult, VanitySearch } from './types'
+import type { Address, Hex } from 'viem'
+import { keccak_256 } from '@noble/hashes/sha3'
+import { bytesToHex, getContractAddress, hexToBytes } from 'viem'
+import { InternalError } from '../errors/common'
+
+// 0xff ++ deployer (20) ++ salt (32) ++ initCodeHash (32)
+const saltOffset = 21
+const saltLength = 32
+
+/** Counts a big-endian integer up by one in place, wrapping around at the top. */
+export function incrementBigEndian(bytes: Uint8Array) {
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    bytes[i] = (bytes[i] + 1) & 0xff
+    if (bytes[i] !== 0) return
+  }
+}
+
+/**
+ * Mines CREATE2 salts for `deployer`. Starts from a random salt and counts up, hashing the
+ * preimage buffer in place so each attempt is a single keccak.
+ */
+export function createCreate2Search(
+  matcher: AddressMatcher,
+  { deployer, initCodeHash }: Create2Options,
+  batchSize: number,
+): VanitySearch {
+  const preimage = new Uint8Array(1 + 20 + saltLength + 32)
+  preimage[0] = 0xff
+  preimage.set(hexToBytes(deployer as Address), 1)
+  preimage.set(hexToBytes(initCodeHash as Hex), saltOffset + saltLength)
+  const salt = preimage.subarray(saltOffset, saltOffset + saltLength)
+  crypto.getRandomValues(salt)
+
+  return {
+    next: () => {
+      const results: VanityResult[] = []
+
+      for (let i = 0; i < batchSize; i++) {
+        incrementBigEndian(salt)
+
+        const address = matcher(bytesToHex(keccak_256(preimage).subarray(12)))
+        if (address == null) continue
+
+        const saltHex = bytesToHex(salt)
+        const expected = getContractAddress({
+          opcode: 'CREATE2',
+          from: deployer as Address,
+          salt: saltHex,
+          bytecodeHash: initCodeHash as Hex,
+        })
+        if (expected !== address) {
+          throw new InternalError('CREATE2 search derived an address that does not match its salt.')
+        }
+        results.push({ address, salt: saltHex, createdAt: Date.now() })
+      }
+
+      return { attempts: batchSize, results }
+    },
+  }
+}
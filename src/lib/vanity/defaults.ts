@@ -0,0 +1,65 @@
+import type { VanityConfig, VanityOptions } from './types'
+import { defaultDerivationPath } from './mnemonic'
+import { safeDeployments } from './safe'
+import { defaultStructureRules } from './structure'
+
+export const defaultVanityConfig: VanityConfig = {
+  count: 1,
+  startsWith: '',
+  endsWith: '',
+  prefixSuffixMode: 'and',
+  includes: '',
+  caseSensitive: false,
+  includesMode: 'all',
+  pattern: '',
+  dictionary: 'off',
+  structure: defaultStructureRules,
+}
+
+export const defaultVanityOptions: VanityOptions = {
+  goal: 'match',
+  score: {
+    metric: 'leadingZeroBytes',
+    target: 0,
+    top: 10,
+  },
+  lookAlike: {
+    target: '',
+    rule: 'affixes',
+    prefix: 4,
+    suffix: 4,
+    distance: 8,
+  },
+  mode: 'privateKey',
+  create: {
+    nonce: 0,
+  },
+  create2: {
+    deployer: '',
+    initCodeHash: '',
+  },
+  mnemonic: {
+    path: defaultDerivationPath,
+    accounts: 1,
+    wordCount: 12,
+  },
+  splitKey: {
+    publicKey: '',
+  },
+  safe: {
+    owners: '',
+    threshold: 1,
+    singleton: safeDeployments.safe,
+    factory: safeDeployments.factory,
+    fallbackHandler: safeDeployments.fallbackHandler,
+    proxyCreationCode: '',
+  },
+  smartAccount: {
+    template: 'simpleAccount',
+    factory: '',
+    proxyInitCode: '',
+    implementation: '',
+    owner: '',
+    initData: '',
+  },
+}
@@ -0,0 +1,120 @@
+import { defaultVanityConfig } from './defaults'
+import {
+  getAttemptsForConfidence,
+  getCompletionProbability,
+  getExpectedAttempts,
+  getIncludeProbability,
+  getIncludesProbability,
+  getMatchProbability,
+  getPatternProbability,
+  getPrefixSuffixProbability,
+  hasCaseLetters,
+} from './estimate'
+
+describe('hasCaseLetters', () => {
+  test('looks for a-f in every field that matches case', () => {
+    expect(hasCaseLetters({ ...defaultVanityConfig, startsWith: '1234', endsWith: '00' })).toBe(
+      false,
+    )
+    expect(hasCaseLetters({ ...defaultVanityConfig, endsWith: '0B' })).toBe(true)
+    expect(hasCaseLetters({ ...defaultVanityConfig, includes: '12, 3e' })).toBe(true)
+    expect(hasCaseLetters({ ...defaultVanityConfig, pattern: '[0-9]...C' })).toBe(true)
+  })
+
+  test('ignores rules that never match case', () => {
+    expect(
+      hasCaseLetters({ ...defaultVanityConfig, pattern: '(.)\\1{3}', dictionary: 'start' }),
+    ).toBe(false)
+  })
+})
+
+describe('getPrefixSuffixProbability', () => {
+  test('combines prefix and suffix by mode', () => {
+    const config = { ...defaultVanityConfig, startsWith: 'dead', endsWith: 'be' }
+    expect(getPrefixSuffixProbability(config)).toBeCloseTo(16 ** -6, 15)
+
+    const p = 16 ** -4 + 16 ** -2 - 16 ** -6
+    expect(getPrefixSuffixProbability({ ...config, prefixSuffixMode: 'or' })).toBeCloseTo(p, 12)
+    // `or` with a single side behaves like that side alone
+    expect(getPrefixSuffixProbability({ ...config, endsWith: '', prefixSuffixMode: 'or' })).toBe(
+      16 ** -4,
+    )
+  })
+
+  test('halves the odds per letter when case-sensitive', () => {
+    const config = { ...defaultVanityConfig, startsWith: 'dEaD', caseSensitive: true }
+    expect(getPrefixSuffixProbability(config)).toBe(16 ** -4 * 2 ** -4)
+    expect(getPrefixSuffixProbability({ ...config, startsWith: '1234' })).toBe(16 ** -4)
+  })
+})
+
+describe('getIncludeProbability', () => {
+  test('single characters', () => {
+    expect(getIncludeProbability('a', false)).toBeCloseTo(1 - (15 / 16) ** 40, 12)
+    expect(getIncludeProbability('A', true)).toBeCloseTo(1 - (31 / 32) ** 40, 12)
+    expect(getIncludeProbability('7', true)).toBeCloseTo(getIncludeProbability('7', false), 12)
+  })
+
+  test('a token as long as the address has a single position', () => {
+    const token = 'ab'.repeat(20)
+    expect(getIncludeProbability(token, false)).toBeCloseTo(getPatternProbability(token, false), 60)
+    expect(getIncludeProbability(`${token}0`, false)).toBe(0)
+  })
+
+  test('self-overlapping tokens are rarer than distinct ones', () => {
+    expect(getIncludeProbability('aaaa', false)).toBeLessThan(getIncludeProbability('abcd', false))
+    // Union bound on the 37 positions of a 4-character token
+    expect(getIncludeProbability('abcd', false)).toBeLessThan(37 * 16 ** -4)
+    expect(getIncludeProbability('abcd', false)).toBeGreaterThan(36 * 16 ** -4)
+  })
+})
+
+describe('getIncludesProbability', () => {
+  test('combines tokens by mode', () => {
+    const pA = getIncludeProbability('abc', false)
+    const pB = getIncludeProbability('123', false)
+    const config = { ...defaultVanityConfig, includes: 'abc, 123' }
+    expect(getIncludesProbability(config)).toBeCloseTo(pA * pB, 15)
+    expect(getIncludesProbability({ ...config, includesMode: 'any' })).toBeCloseTo(
+      1 - (1 - pA) * (1 - pB),
+      15,
+    )
+    expect(getIncludesProbability(defaultVanityConfig)).toBe(1)
+  })
+})
+
+describe('getMatchProbability', () => {
+  test('ANDs every rule', () => {
+    const config = { ...defaultVanityConfig, startsWith: '00', includes: 'beef', pattern: '??1' }
+    expect(getMatchProbability(config)).toBeCloseTo(
+      16 ** -2 * getIncludeProbability('beef', false) * 16 ** -1,
+      15,
+    )
+    expect(getMatchProbability(defaultVanityConfig)).toBe(1)
+  })
+})
+
+describe('attempt estimates', () => {
+  const p = 16 ** -6
+
+  test('expected attempts scale with count', () => {
+    expect(getExpectedAttempts(p)).toBe(16 ** 6)
+    expect(getExpectedAttempts(p, 3)).toBe(3 * 16 ** 6)
+    expect(getExpectedAttempts(0)).toBe(Infinity)
+  })
+
+  test('confidence times for a single match', () => {
+    expect(getAttemptsForConfidence(p, 0.5)).toBeCloseTo(Math.LN2 / p, 3)
+    expect(getAttemptsForConfidence(p, 0.99)).toBeCloseTo(Math.log(100) / p, 3)
+  })
+
+  test('confidence times for several matches', () => {
+    // The median of a Gamma(2, 1) is about 1.678
+    expect(getAttemptsForConfidence(p, 0.5, 2) * p).toBeCloseTo(1.678, 3)
+
+    const ninety = getAttemptsForConfidence(p, 0.9, 10)
+    expect(getCompletionProbability(p, ninety, 10)).toBeCloseTo(0.9, 9)
+    expect(ninety).toBeGreaterThan(getExpectedAttempts(p, 10))
+    expect(getAttemptsForConfidence(p, 0.99, 10)).toBeGreaterThan(ninety)
+  })
+})
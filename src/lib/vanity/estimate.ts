@@ -0,0 +1,188 @@
+import type { VanityConfig } from './types'
+import { getDictionaryProbability } from './hex-words'
+import { getMaskProbability } from './pattern'
+import { getStructureProbability } from './structure'
+
+const addressLength = 40
+
+/** Hex letters are the only characters EIP-55 gives a case; digits are always the same. */
+export function countCaseLetters(pattern: string): number {
+  return pattern.match(/[a-f]/gi)?.length ?? 0
+}
+
+/**
+ * Whether case-sensitive matching constrains `config` at all. Only the letters of the prefix,
+ * suffix, include tokens and pattern have a checksum case to match; dictionary words and structure
+ * rules ignore case, and any casing of a-f is possible.
+ */
+export function hasCaseLetters(config: VanityConfig): boolean {
+  return [config.startsWith, config.endsWith, config.includes, config.pattern].some(
+    field => countCaseLetters(field) > 0,
+  )
+}
+
+/**
+ * Probability that a random address has `pattern` at one fixed position. In case-sensitive mode
+ * every letter must also get its casing from the checksum hash, which is a coin flip per letter.
+ */
+export function getPatternProbability(pattern: string, caseSensitive: boolean): number {
+  const cleanPattern = pattern.replace(/^0x/i, '')
+  const probability = Math.pow(16, -cleanPattern.length)
+  return caseSensitive ? probability * Math.pow(2, -countCaseLetters(cleanPattern)) : probability
+}
+
+/** Probability of the `startsWith` / `endsWith` pair under `prefixSuffixMode`. */
+export function getPrefixSuffixProbability(config: VanityConfig): number {
+  const hasStart = config.startsWith !== ''
+  const hasEnd = config.endsWith !== ''
+  const pStart = getPatternProbability(config.startsWith, config.caseSensitive)
+  const pEnd = getPatternProbability(config.endsWith, config.caseSensitive)
+
+  // Prefix and suffix never overlap (their lengths sum to 40 at most), so they are independent
+  if (config.prefixSuffixMode === 'or' && hasStart && hasEnd) {
+    return pStart + pEnd - pStart * pEnd
+  }
+  return pStart * pEnd
+}
+
+// Address characters and their odds: 16 hex digits, or 22 symbols once a-f carry a checksum case
+function getAlphabet(caseSensitive: boolean): [string, number][] {
+  const digits = '0123456789'.split('')
+  const letters = 'abcdef'.split('')
+  if (!caseSensitive) {
+    return [...digits, ...letters].map(char => [char, 1 / 16])
+  }
+  return [
+    ...digits.map((char): [string, number] => [char, 1 / 16]),
+    ...[...letters, ...letters.map(char => char.toUpperCase())].map((char): [string, number] => [
+      char,
+      1 / 32,
+    ]),
+  ]
+}
+
+/**
+ * Probability that `token` appears anywhere in a random address. Exact, self-overlapping tokens
+ * like `aaaa` included: a dynamic program over the KMP automaton of the token.
+ */
+export function getIncludeProbability(token: string, caseSensitive: boolean): number {
+  const needle = caseSensitive ? token : token.toLowerCase()
+  if (needle === '') return 1
+  if (needle.length > addressLength) return 0
+
+  const failure = new Array<number>(needle.length).fill(0)
+  for (let i = 1, k = 0; i < needle.length; i++) {
+    while (k > 0 && needle[i] !== needle[k]) k = failure[k - 1]
+    if (needle[i] === needle[k]) k++
+    failure[i] = k
+  }
+  const advance = (state: number, char: string) => {
+    while (state > 0 && char !== needle[state]) state = failure[state - 1]
+    return char === needle[state] ? state + 1 : state
+  }
+
+  const alphabet = getAlphabet(caseSensitive)
+  // states[j]: probability of having matched the first j characters and not the whole token yet
+  let states = new Array<number>(needle.length).fill(0)
+  states[0] = 1
+  let found = 0
+  for (let position = 0; position < addressLength; position++) {
+    const next = new Array<number>(needle.length).fill(0)
+    states.forEach((probability, state) => {
+      if (probability === 0) return
+      alphabet.forEach(([char, charProbability]) => {
+        const nextState = advance(state, char)
+        if (nextState === needle.length) {
+          found += probability * charProbability
+        } else {
+          next[nextState] += probability * charProbability
+        }
+      })
+    })
+    states = next
+  }
+  return found
+}
+
+export function getIncludeTokens(includes: string): string[] {
+  return includes.split(/[, ]+/).filter(Boolean)
+}
+
+/**
+ * Probability of the `includes` rule. Distinct tokens are treated as independent, which slightly
+ * overestimates `all` for tokens that share characters.
+ */
+export function getIncludesProbability(config: VanityConfig): number {
+  const probabilities = getIncludeTokens(config.includes).map(token =>
+    getIncludeProbability(token, config.caseSensitive),
+  )
+  if (probabilities.length === 0) return 1
+  if (config.includesMode === 'any') {
+    return 1 - probabilities.reduce((none, p) => none * (1 - p), 1)
+  }
+  return probabilities.reduce((all, p) => all * p, 1)
+}
+
+/**
+ * Probability that one random address matches every rule of `config`. The rules are ANDed and
+ * assumed independent of each other.
+ */
+export function getMatchProbability(config: VanityConfig): number {
+  return (
+    getPrefixSuffixProbability(config) *
+    getIncludesProbability(config) *
+    getMaskProbability(config.pattern, config.caseSensitive) *
+    getDictionaryProbability(config.dictionary) *
+    getStructureProbability(config.structure)
+  )
+}
+
+/** Mean number of attempts until `count` matches. */
+export function getExpectedAttempts(probability: number, count = 1): number {
+  return probability > 0 ? count / probability : Infinity
+}
+
+// P(Poisson(mean) >= count), i.e. the chance of `count` matches within mean / p attempts
+function getPoissonTail(mean: number, count: number) {
+  let term = Math.exp(-mean)
+  let below = 0
+  for (let i = 0; i < count; i++) {
+    below += term
+    term *= mean / (i + 1)
+  }
+  return 1 - below
+}
+
+/**
+ * Attempts after which `count` matches have been found with the given `confidence` (e.g. 0.9).
+ * Matches arrive as a Poisson process at rate `probability` per attempt.
+ */
+export function getAttemptsForConfidence(
+  probability: number,
+  confidence: number,
+  count = 1,
+): number {
+  if (probability <= 0) return Infinity
+  if (count <= 0) return 0
+  if (count === 1) return -Math.log(1 - confidence) / probability
+
+  // The tail grows with the mean, so bisect on it between 0 and a bound that surely suffices
+  let low = 0
+  let high = count
+  while (getPoissonTail(high, count) < confidence) high *= 2
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2
+    if (getPoissonTail(mid, count) < confidence) {
+      low = mid
+    } else {
+      high = mid
+    }
+  }
+  return high / probability
+}
+
+/** Chance that `count` matches were already found after `attempts`. */
+export function getCompletionProbability(probability: number, attempts: number, count = 1) {
+  if (count <= 0) return 1
+  return getPoissonTail(probability * attempts, count)
+}
@@ -0,0 +1,43 @@
+import type { VanityResult } from './types'
+import { defaultVanityConfig } from './defaults'
+import { formatCSV, formatJSON } from './export'
+
+const results: VanityResult[] = [
+  { address: '0xbeef', salt: '0x02', patternIndex: 1, createdAt: 0 },
+  { address: '0xdead', salt: '0x01', patternIndex: 0, createdAt: 0 },
+]
+
+describe('formatCSV', () => {
+  test('keeps only the filled columns', () => {
+    expect(formatCSV(results)).toBe(
+      [
+        'Address,Salt,CreatedAt',
+        '0xbeef,0x02,1970-01-01T00:00:00.000Z',
+        '0xdead,0x01,1970-01-01T00:00:00.000Z',
+      ].join('\n'),
+    )
+  })
+
+  test('orders a batch by pattern with a quoted pattern column', () => {
+    const patterns = [
+      { ...defaultVanityConfig, startsWith: 'dead' },
+      { ...defaultVanityConfig, includes: 'be, ef' },
+    ]
+    expect(formatCSV(results, patterns).split('\n')).toEqual([
+      'Pattern,Address,Salt,CreatedAt',
+      '"0xdead…",0xdead,0x01,1970-01-01T00:00:00.000Z',
+      '"has be, ef",0xbeef,0x02,1970-01-01T00:00:00.000Z',
+    ])
+  })
+})
+
+describe('formatJSON', () => {
+  test('groups a batch under its patterns', () => {
+    const patterns = [defaultVanityConfig, { ...defaultVanityConfig, endsWith: 'beef' }]
+    expect(JSON.parse(formatJSON(results, patterns))).toEqual([
+      { pattern: 'any address', config: patterns[0], results: [results[1]] },
+      { pattern: '…beef', config: patterns[1], results: [results[0]] },
+    ])
+    expect(JSON.parse(formatJSON(results))).toEqual(results)
+  })
+})
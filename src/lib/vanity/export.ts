@@ -1,23 +1,140 @@
-import type { VanityResult } from './types'
+import type { KeystoreKdf } from './keystore'
+import type { VanityConfig, VanityResult } from './types'
+import type { Hex } from 'viem'
+import { strToU8, zipSync } from 'fflate'
+import { bytesToHex } from 'viem'
+import { mnemonicToAccount } from 'viem/accounts'
+import { describePattern, groupByPattern } from './batch'
+import { encryptKeystore, getKeystoreFileName } from './keystore'
 
-export function exportToCSV(results: VanityResult[]) {
-  const headers = ['Address', 'PrivateKey', 'CreatedAt']
-  const rows = results.map(r => [r.address, r.privateKey, new Date(r.createdAt).toISOString()])
+type Column = [header: string, value: (result: VanityResult) => string | undefined]
+
+const columns: Column[] = [
+  ['Address', r => r.address],
+  ['PrivateKey', r => r.privateKey],
+  ['Deployer', r => r.deployer],
+  ['Nonce', r => r.nonce?.toString()],
+  ['Salt', r => r.salt],
+  ['Mnemonic', r => r.mnemonic],
+  ['Path', r => r.path],
+  ['PartialKey', r => r.partialKey],
+  ['SaltNonce', r => r.saltNonce],
+  ['Calldata', r => r.calldata],
+  ['Score', r => r.score?.toString()],
+  ['Distance', r => r.distance?.toString()],
+  ['CreatedAt', r => new Date(r.createdAt).toISOString()],
+]
+
+// Pattern descriptions may contain commas, e.g. `has cafe, babe`
+const quoteCSV = (value: string) => `"${value.replaceAll('"', '""')}"`
+
+/** Batch exports are ordered by pattern, with a `Pattern` column naming each row's pattern. */
+export function formatCSV(results: VanityResult[], patterns: VanityConfig[] = []): string {
+  const groups = groupByPattern(results, patterns)
+  const isBatch = patterns.length > 1
+  const sortedResults = isBatch ? groups.flatMap(group => group.results) : results
+
+  // Only keep the columns that the exported mode fills in
+  const usedColumns: Column[] = [
+    ...(isBatch
+      ? [
+          [
+            'Pattern',
+            r => quoteCSV(describePattern(patterns[r.patternIndex ?? 0])),
+          ] satisfies Column,
+        ]
+      : []),
+    ...columns.filter(([, value]) => results.some(r => value(r) != null)),
+  ]
+  const headers = usedColumns.map(([header]) => header)
+  const rows = sortedResults.map(r => usedColumns.map(([, value]) => value(r) ?? ''))
 
   const lines = [headers.join(',')]
   rows.forEach(row => lines.push(row.join(',')))
-  const csvContent = lines.join('\n')
+  return lines.join('\n')
+}
+
+/** Batch exports group the results under their pattern. */
+export function formatJSON(results: VanityResult[], patterns: VanityConfig[] = []): string {
+  const content =
+    patterns.length > 1
+      ? groupByPattern(results, patterns).map(({ pattern, results }) => ({
+          pattern: describePattern(pattern),
+          config: pattern,
+          results,
+        }))
+      : results
+  return JSON.stringify(content, null, 2)
+}
 
-  downloadFile(csvContent, 'vanity-addresses.csv', 'text/csv')
+export function exportToCSV(results: VanityResult[], patterns: VanityConfig[] = []) {
+  downloadFile(formatCSV(results, patterns), 'vanity-addresses.csv', 'text/csv')
 }
 
-export function exportToJSON(results: VanityResult[]) {
-  const jsonContent = JSON.stringify(results, null, 2)
-  downloadFile(jsonContent, 'vanity-addresses.json', 'application/json')
+export function exportToJSON(results: VanityResult[], patterns: VanityConfig[] = []) {
+  downloadFile(formatJSON(results, patterns), 'vanity-addresses.json', 'application/json')
+}
+
+/** Spendable key of a result: the raw key, or the one derived from its mnemonic and path. */
+export function getResultPrivateKey(result: VanityResult): Hex | null {
+  if (result.privateKey != null) return result.privateKey as Hex
+  if (result.mnemonic != null && result.path != null) {
+    // Paths were validated before the search started
+    const account = mnemonicToAccount(result.mnemonic, {
+      path: result.path as `m/44'/60'/${string}`,
+    })
+    const privateKey = account.getHdKey().privateKey
+    return privateKey == null ? null : bytesToHex(privateKey)
+  }
+  return null
+}
+
+/**
+ * Encrypts every spendable key into its own keystore V3 file, keyed by geth's file name. Key
+ * derivation is deliberately slow, hence the progress callback.
+ */
+export async function encryptKeystoreFiles(
+  results: VanityResult[],
+  password: string,
+  kdf: KeystoreKdf,
+  onProgress?: (done: number, total: number) => void,
+): Promise<Record<string, string>> {
+  const privateKeys = results.map(getResultPrivateKey).filter(key => key != null)
+  const files: Record<string, string> = {}
+
+  for (const [i, privateKey] of privateKeys.entries()) {
+    const keystore = await encryptKeystore(privateKey, password, kdf)
+    files[getKeystoreFileName(keystore)] = JSON.stringify(keystore)
+    onProgress?.(i + 1, privateKeys.length)
+  }
+  return files
+}
+
+/** Downloads the keystore files of `encryptKeystoreFiles`, a single one as is, several zipped. */
+export async function exportToKeystore(
+  results: VanityResult[],
+  password: string,
+  kdf: KeystoreKdf,
+  onProgress?: (done: number, total: number) => void,
+) {
+  const files = await encryptKeystoreFiles(results, password, kdf, onProgress)
+
+  const entries = Object.entries(files)
+  if (entries.length === 1) {
+    const [filename, content] = entries[0]
+    downloadFile(content, filename, 'application/json')
+  } else if (entries.length > 1) {
+    const zipped = zipSync(
+      Object.fromEntries(entries.map(([filename, content]) => [filename, strToU8(content)])),
+    )
+    downloadFile(zipped, 'vanity-keystores.zip', 'application/zip')
+  }
+  return entries.length
 }
 
-function downloadFile(content: string, filename: string, type: string) {
-  const blob = new Blob([content], { type })
+function downloadFile(content: string | Uint8Array, filename: string, type: string) {
+  // Blob parts must be ArrayBuffer backed, which fflate output is not typed as
+  const blob = new Blob([typeof content === 'string' ? content : new Uint8Array(content)], { type })
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
   a.href = url
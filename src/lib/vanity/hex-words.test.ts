@@ -0,0 +1,56 @@
+import {
+  getDictionaryProbability,
+  hexWords,
+  matchHexWord,
+  suggestHexWords,
+  toHexWord,
+} from './hex-words'
+
+describe('toHexWord', () => {
+  test('works', () => {
+    expect(toHexWord('coffee')).toBe('c0ffee')
+    expect(toHexWord('Safe')).toBe('5afe')
+    expect(toHexWord('dead')).toBe('dead')
+    expect(toHexWord('shield')).toBeNull()
+  })
+})
+
+describe('suggestHexWords', () => {
+  test('puts the most readable spelling first', () => {
+    const suggestions = suggestHexWords('beef')
+    expect(suggestions[0]).toEqual({ hex: 'beef', substitutions: 0, difficulty: 65536 })
+    expect(suggestions.map(s => s.hex)).toContain('b33f')
+    suggestions.forEach(s => expect(s.hex).toMatch(/^[0-9a-f]+$/))
+  })
+
+  test('falls back to spellable fragments', () => {
+    expect(suggestHexWords('shield')[0].hex).toBe('1e1d')
+    expect(suggestHexWords('xyz')).toEqual([])
+  })
+})
+
+describe('matchHexWord', () => {
+  test('works', () => {
+    const address = 'c0ffee000000000000000000000000000000beef'
+    expect(matchHexWord(address, 'start')).toBe(true)
+    expect(matchHexWord(address, 'end')).toBe(true)
+    expect(matchHexWord('1234' + address.slice(4), 'start')).toBe(false)
+    expect(matchHexWord('1234' + address.slice(4), 'either')).toBe(true)
+    expect(matchHexWord('1234', 'off')).toBe(true)
+  })
+
+  test('every bundled word is hex', () => {
+    hexWords.forEach(word => expect(word).toMatch(/^[0-9a-f]{4,8}$/))
+  })
+})
+
+describe('getDictionaryProbability', () => {
+  test('counts words that extend another word once', () => {
+    const pStart = getDictionaryProbability('start')
+    expect(pStart).toBeGreaterThan(0)
+    // `deadbeef` and `cafebabe` are covered by `dead` and `cafe`
+    const shortest = hexWords.filter(w => !['deadbeef', 'cafebabe'].includes(w))
+    expect(pStart).toBeLessThan(shortest.reduce((sum, w) => sum + Math.pow(16, -w.length), 0))
+    expect(getDictionaryProbability('off')).toBe(1)
+  })
+})
@@ -0,0 +1,187 @@
+import type { VanityConfig } from './types'
+
+export type DictionaryMode = VanityConfig['dictionary']
+
+/**
+ * Characters each letter can be written as in an address. Hex letters keep their own spelling
+ * first; the rest only exist as leetspeak digits.
+ */
+const leetMap: Record<string, string[]> = {
+  a: ['a', '4'],
+  b: ['b', '8'],
+  c: ['c'],
+  d: ['d'],
+  e: ['e', '3'],
+  f: ['f'],
+  g: ['9', '6'],
+  i: ['1'],
+  l: ['1'],
+  o: ['0'],
+  s: ['5'],
+  t: ['7'],
+  z: ['2'],
+}
+
+const minWordLength = 3
+
+/** Bundled words for dictionary mode, already spelled in hex. */
+export const hexWords = [
+  // Plain hex
+  'abba',
+  'bead',
+  'beef',
+  'cafe',
+  'babe',
+  'dead',
+  'deaf',
+  'face',
+  'fade',
+  'feed',
+  'cede',
+  'decaf',
+  'faced',
+  'faded',
+  'added',
+  'decade',
+  'facade',
+  'accede',
+  'efface',
+  'deadbeef',
+  'cafebabe',
+  // Leetspeak
+  'c0de',
+  'c0ffee',
+  'badc0de',
+  'f00d',
+  'c001',
+  '5afe',
+  '5eed',
+  'ba5e',
+  'ca5e',
+  '5a1e',
+  '5ea1',
+  '1ead',
+  '10ad',
+  '1dea',
+  'd1ce',
+  'b0a7',
+  '7e57',
+  '7ab1e',
+  'b1ade',
+  'ba11',
+  'ca11',
+  'be11',
+  'd011',
+  '5e1f',
+  'fee7',
+  'f1a7',
+  '90a1',
+  '0dd5',
+  'd0c5',
+  '7ac0',
+  'acce55',
+  'b1e55ed',
+  'c1a55',
+  '0ff1ce',
+  '57a7e',
+  '57ee1',
+  'c0a57',
+  '5ca1e',
+  '5a1ad',
+  'fa1afe1',
+]
+
+export interface HexWordSuggestion {
+  hex: string
+  /** Characters that differ from the typed word */
+  substitutions: number
+  /** 1 in this many random addresses start (or end) with `hex` */
+  difficulty: number
+}
+
+const toSuggestion = (word: string, hex: string): HexWordSuggestion => ({
+  hex,
+  substitutions: hex.split('').filter((char, i) => char !== word[i]).length,
+  difficulty: Math.pow(16, hex.length),
+})
+
+const getSpellings = (char: string) => (/[0-9]/.test(char) ? [char] : (leetMap[char] ?? []))
+
+/** Closest hex spelling of `word`, or `null` when a letter has no hex look-alike. */
+export function toHexWord(word: string): string | null {
+  const chars = word.trim().toLowerCase().split('')
+  if (chars.length === 0 || chars.some(char => getSpellings(char).length === 0)) return null
+  return chars.map(char => getSpellings(char)[0]).join('')
+}
+
+/**
+ * Hex spellings of `word`, most readable (fewest substitutions) first. Words with letters that have
+ * no look-alike, like the `h` of `shield`, fall back to their longest spellable fragments.
+ */
+export function suggestHexWords(word: string, limit = 6): HexWordSuggestion[] {
+  const clean = word.trim().toLowerCase()
+  if (clean === '') return []
+
+  if (toHexWord(clean) == null) {
+    const fragments = clean
+      .split(/[^0-9a-gilostz]+/)
+      .filter(fragment => fragment.length >= minWordLength)
+      .sort((a, b) => b.length - a.length)
+    return fragments.flatMap(fragment => suggestHexWords(fragment, 1)).slice(0, limit)
+  }
+
+  // Every combination of spellings; words are short, but cap the expansion anyway
+  let spellings = ['']
+  for (const char of clean) {
+    spellings = spellings
+      .flatMap(prefix => getSpellings(char).map(spelling => prefix + spelling))
+      .slice(0, 256)
+  }
+  return spellings
+    .map(hex => toSuggestion(clean, hex))
+    .sort((a, b) => a.substitutions - b.substitutions)
+    .slice(0, limit)
+}
+
+const wordLengths = [...new Set(hexWords.map(word => word.length))]
+const hexWordSet = new Set(hexWords)
+
+/** Whether a lowercase address without `0x` starts and/or ends with a bundled hex word. */
+export function matchHexWord(cleanAddress: string, mode: DictionaryMode): boolean {
+  const starts = () => wordLengths.some(length => hexWordSet.has(cleanAddress.slice(0, length)))
+  const ends = () => wordLengths.some(length => hexWordSet.has(cleanAddress.slice(-length)))
+
+  switch (mode) {
+    case 'start':
+      return starts()
+    case 'end':
+      return ends()
+    case 'either':
+      return starts() || ends()
+    default:
+      return true
+  }
+}
+
+// Words that extend a shorter word (`deadbeef` after `dead`) add no new matches
+const getAnchoredProbability = (isCovered: (word: string, other: string) => boolean) =>
+  hexWords
+    .filter(word => !hexWords.some(other => other !== word && isCovered(word, other)))
+    .reduce((sum, word) => sum + Math.pow(16, -word.length), 0)
+
+/** Probability that a random address satisfies the dictionary rule. Words are at most 8 characters, so a prefix and a suffix never overlap. */
+export function getDictionaryProbability(mode: DictionaryMode): number {
+  const pStart = getAnchoredProbability((word, other) => word.startsWith(other))
+  const pEnd = getAnchoredProbability((word, other) => word.endsWith(other))
+
+  switch (mode) {
+    case 'start':
+      return pStart
+    case 'end':
+      return pEnd
+    case 'either':
+      return pStart + pEnd - pStart * pEnd
+    default:
+      return 1
+  }
+}
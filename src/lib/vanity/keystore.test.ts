@@ -0,0 +1,87 @@
+import { generatePrivateKey, privateKeyToAddress } from 'viem/accounts'
+import { InvalidKeystoreError, KeystorePasswordError } from '../errors/vanity'
+import { decryptKeystore, encryptKeystore, parseKeystore } from './keystore'
+
+// Test vectors from the Web3 Secret Storage definition
+const privateKey = '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d'
+
+const pbkdf2Vector = {
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+    ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+    kdf: 'pbkdf2',
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: 'hmac-sha256',
+      salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd',
+    },
+    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2',
+  },
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  version: 3,
+}
+
+const scryptVector = {
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '83dbcc02d8ccb40e466191a123791e0e' },
+    ciphertext: 'd172bf743a674da9cdad04534d56926ef8358534d458fffccd4e6ad2fbde479c',
+    kdf: 'scrypt',
+    kdfparams: {
+      dklen: 32,
+      n: 262144,
+      r: 1,
+      p: 8,
+      salt: 'ab0c7876052600dd703518d6fc3fe8984592145b591fc8fb5c6d43190334ba19',
+    },
+    mac: '2103ac29920d71da29f15d75b4a16dbe95cfd7ff8faea1056c33131d846e3097',
+  },
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  version: 3,
+}
+
+describe('decryptKeystore', () => {
+  test('opens the pbkdf2 test vector', async () => {
+    const keystore = parseKeystore(JSON.stringify(pbkdf2Vector))
+    await expect(decryptKeystore(keystore, 'testpassword')).resolves.toEqual({
+      privateKey,
+      address: privateKeyToAddress(privateKey),
+    })
+  })
+
+  test('opens the scrypt test vector', async () => {
+    const keystore = parseKeystore(JSON.stringify(scryptVector))
+    const { privateKey: decrypted } = await decryptKeystore(keystore, 'testpassword')
+    expect(decrypted).toBe(privateKey)
+  })
+
+  test('rejects a wrong password', async () => {
+    const keystore = parseKeystore(JSON.stringify(pbkdf2Vector))
+    await expect(decryptKeystore(keystore, 'wrong')).rejects.toThrow(KeystorePasswordError)
+  })
+})
+
+describe('encryptKeystore', () => {
+  test.each(['scrypt', 'pbkdf2'] as const)('round-trips with %s', async kdf => {
+    const key = generatePrivateKey()
+    const keystore = await encryptKeystore(key, 'hunter22', kdf, 1024)
+    expect(keystore.version).toBe(3)
+    expect(keystore.address).toBe(privateKeyToAddress(key).slice(2).toLowerCase())
+    expect(keystore.crypto.kdf).toBe(kdf)
+
+    const { privateKey: decrypted } = await decryptKeystore(
+      parseKeystore(JSON.stringify(keystore)),
+      'hunter22',
+    )
+    expect(decrypted).toBe(key)
+  })
+})
+
+describe('parseKeystore', () => {
+  test('rejects files that are not keystore V3', () => {
+    expect(() => parseKeystore('not json')).toThrow(InvalidKeystoreError)
+    expect(() => parseKeystore(JSON.stringify({ version: 1 }))).toThrow(InvalidKeystoreError)
+  })
+})
@@ -0,0 +1,172 @@
+import type { Hex } from 'viem'
+import { pbkdf2Async } from '@noble/hashes/pbkdf2'
+import { scryptAsync } from '@noble/hashes/scrypt'
+import { sha256 } from '@noble/hashes/sha2'
+import { keccak_256 } from '@noble/hashes/sha3'
+import { bytesToHex, concatBytes, hexToBytes } from 'viem'
+import { privateKeyToAddress } from 'viem/accounts'
+import { InvalidKeystoreError, KeystorePasswordError } from '../errors/vanity'
+
+export type KeystoreKdf = 'scrypt' | 'pbkdf2'
+
+export interface ScryptParams {
+  dklen: number
+  salt: string
+  n: number
+  r: number
+  p: number
+}
+
+export interface Pbkdf2Params {
+  dklen: number
+  salt: string
+  c: number
+  prf: 'hmac-sha256'
+}
+
+/** Web3 Secret Storage (keystore V3), as written by geth and read by Foundry and MetaMask. */
+export interface KeystoreV3 {
+  version: 3
+  id: string
+  /** Lowercase, without `0x`; optional in the spec but always written here */
+  address?: string
+  crypto: {
+    cipher: 'aes-128-ctr'
+    cipherparams: { iv: string }
+    ciphertext: string
+    kdf: KeystoreKdf
+    kdfparams: ScryptParams | Pbkdf2Params
+    mac: string
+  }
+}
+
+export const keystoreKdfLabels: Record<KeystoreKdf, string> = {
+  scrypt: 'scrypt (geth default)',
+  pbkdf2: 'PBKDF2-SHA256',
+}
+
+// geth's "standard" cost; tests pass cheaper ones
+export const defaultKdfCost: Record<KeystoreKdf, number> = {
+  scrypt: 1 << 18,
+  pbkdf2: 1 << 18,
+}
+
+const strip0x = (hex: string) => hex.replace(/^0x/i, '')
+
+async function deriveKey(password: string, kdf: KeystoreKdf, params: ScryptParams | Pbkdf2Params) {
+  const salt = hexToBytes(`0x${params.salt}`)
+  if (kdf === 'scrypt') {
+    const { n, r, p, dklen } = params as ScryptParams
+    return scryptAsync(password, salt, { N: n, r, p, dkLen: dklen })
+  }
+  const { c, dklen } = params as Pbkdf2Params
+  return pbkdf2Async(sha256, password, salt, { c, dkLen: dklen })
+}
+
+async function aes128Ctr(key: Uint8Array, iv: Uint8Array, data: Uint8Array) {
+  const cryptoKey = await crypto.subtle.importKey('raw', key.slice(0, 16), 'AES-CTR', false, [
+    'encrypt',
+  ])
+  const output = await crypto.subtle.encrypt(
+    { name: 'AES-CTR', counter: iv.slice(), length: 128 },
+    cryptoKey,
+    data.slice(),
+  )
+  return new Uint8Array(output)
+}
+
+const getMac = (derivedKey: Uint8Array, ciphertext: Uint8Array) =>
+  keccak_256(concatBytes([derivedKey.subarray(16, 32), ciphertext]))
+
+export async function encryptKeystore(
+  privateKey: Hex,
+  password: string,
+  kdf: KeystoreKdf = 'scrypt',
+  cost = defaultKdfCost[kdf],
+): Promise<KeystoreV3> {
+  const salt = bytesToHex(crypto.getRandomValues(new Uint8Array(32))).slice(2)
+  const iv = crypto.getRandomValues(new Uint8Array(16))
+  const kdfparams: ScryptParams | Pbkdf2Params =
+    kdf === 'scrypt'
+      ? { dklen: 32, salt, n: cost, r: 8, p: 1 }
+      : { dklen: 32, salt, c: cost, prf: 'hmac-sha256' }
+
+  const derivedKey = await deriveKey(password, kdf, kdfparams)
+  const ciphertext = await aes128Ctr(derivedKey, iv, hexToBytes(privateKey))
+
+  return {
+    version: 3,
+    id: crypto.randomUUID(),
+    address: strip0x(privateKeyToAddress(privateKey)).toLowerCase(),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: strip0x(bytesToHex(iv)) },
+      ciphertext: strip0x(bytesToHex(ciphertext)),
+      kdf,
+      kdfparams,
+      mac: strip0x(bytesToHex(getMac(derivedKey, ciphertext))),
+    },
+  }
+}
+
+/** Reads a keystore V3 JSON; `Crypto` is also accepted since some wallets capitalize it. */
+export function parseKeystore(json: string): KeystoreV3 {
+  let keystore: KeystoreV3 & { Crypto?: KeystoreV3['crypto'] }
+  try {
+    keystore = JSON.parse(json)
+  } catch (error) {
+    throw new InvalidKeystoreError('Keystore file is not valid JSON.', {
+      cause: error instanceof Error ? error : undefined,
+    })
+  }
+
+  const cryptoSection = keystore?.crypto ?? keystore?.Crypto
+  if (keystore?.version !== 3 || cryptoSection == null) {
+    throw new InvalidKeystoreError('Only version 3 keystore files are supported.')
+  }
+  if (cryptoSection.cipher !== 'aes-128-ctr') {
+    throw new InvalidKeystoreError(`Unsupported cipher "${cryptoSection.cipher}".`)
+  }
+  if (cryptoSection.kdf !== 'scrypt' && cryptoSection.kdf !== 'pbkdf2') {
+    throw new InvalidKeystoreError(`Unsupported key derivation "${cryptoSection.kdf}".`)
+  }
+  if (
+    cryptoSection.kdf === 'pbkdf2' &&
+    (cryptoSection.kdfparams as Pbkdf2Params).prf !== 'hmac-sha256'
+  ) {
+    throw new InvalidKeystoreError('Only hmac-sha256 PBKDF2 keystores are supported.')
+  }
+
+  return { ...keystore, crypto: cryptoSection }
+}
+
+export async function decryptKeystore(keystore: KeystoreV3, password: string) {
+  const { kdf, kdfparams, cipherparams, ciphertext, mac } = keystore.crypto
+  const ciphertextBytes = hexToBytes(`0x${strip0x(ciphertext)}`)
+
+  const derivedKey = await deriveKey(password, kdf, {
+    ...kdfparams,
+    salt: strip0x(kdfparams.salt),
+  })
+  if (strip0x(bytesToHex(getMac(derivedKey, ciphertextBytes))) !== strip0x(mac).toLowerCase()) {
+    throw new KeystorePasswordError()
+  }
+
+  const privateKey = bytesToHex(
+    await aes128Ctr(derivedKey, hexToBytes(`0x${strip0x(cipherparams.iv)}`), ciphertextBytes),
+  )
+  const address = privateKeyToAddress(privateKey)
+  if (
+    keystore.address != null &&
+    strip0x(address).toLowerCase() !== strip0x(keystore.address).toLowerCase()
+  ) {
+    throw new InvalidKeystoreError('Decrypted key does not belong to the keystore address.')
+  }
+
+  return { privateKey, address }
+}
+
+/** File name in geth's `UTC--<created at>--<address>` format. */
+export function getKeystoreFileName(keystore: KeystoreV3, createdAt = new Date()) {
+  return `UTC--${createdAt.toISOString().replace(/:/g, '-')}--${keystore.address}.json`
+}
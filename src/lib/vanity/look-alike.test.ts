@@ -0,0 +1,52 @@
+import type { LookAlikeOptions } from './types'
+import { defaultVanityConfig } from './defaults'
+import { createLookAlikeMatcher, getHammingDistance, getLookAlikeProbability } from './look-alike'
+import { createAddressMatcher } from './match'
+
+const target = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'
+
+const options: LookAlikeOptions = { target, rule: 'affixes', prefix: 4, suffix: 4, distance: 0 }
+
+describe('getHammingDistance', () => {
+  test('ignores casing', () => {
+    expect(getHammingDistance(target, target.toLowerCase())).toBe(0)
+    expect(getHammingDistance(target, '0x' + '0'.repeat(40))).toBe(37)
+  })
+})
+
+describe('createLookAlikeMatcher', () => {
+  test('keeps the first and last characters', () => {
+    const matcher = createLookAlikeMatcher(createAddressMatcher(defaultVanityConfig), options)
+    expect(matcher('0xa0b8' + '0'.repeat(32) + 'eb48')).not.toBeNull()
+    expect(matcher('0xa0b8' + '0'.repeat(32) + 'eb47')).toBeNull()
+  })
+
+  test('bounds the Hamming distance', () => {
+    const matcher = createLookAlikeMatcher(createAddressMatcher(defaultVanityConfig), {
+      ...options,
+      rule: 'hamming',
+      distance: 2,
+    })
+    const lower = target.toLowerCase()
+    expect(matcher(lower.slice(0, -2) + '00')).not.toBeNull()
+    expect(matcher(lower.slice(0, -3) + '000')).toBeNull()
+  })
+
+  test('still applies the pattern rules', () => {
+    const matcher = createLookAlikeMatcher(
+      createAddressMatcher({ ...defaultVanityConfig, includes: 'ffff' }),
+      options,
+    )
+    expect(matcher('0xa0b8' + '0'.repeat(32) + 'eb48')).toBeNull()
+  })
+})
+
+describe('getLookAlikeProbability', () => {
+  test('works', () => {
+    expect(getLookAlikeProbability(options)).toBe(Math.pow(16, -8))
+    expect(getLookAlikeProbability({ ...options, rule: 'hamming', distance: 0 })).toBeCloseTo(
+      Math.pow(16, -40),
+    )
+    expect(getLookAlikeProbability({ ...options, rule: 'hamming', distance: 40 })).toBeCloseTo(1)
+  })
+})
@@ -0,0 +1,80 @@
+import type { AddressMatcher } from './match'
+import type { LookAlikeOptions, VanitySearch } from './types'
+
+const addressLength = 40
+
+export const lookAlikeRuleLabels: Record<LookAlikeOptions['rule'], string> = {
+  affixes: 'Same first and last characters',
+  hamming: 'Hamming distance',
+}
+
+const toHexChars = (address: string) => address.replace(/^0x/i, '').toLowerCase()
+
+/** Hex characters at which two addresses differ, ignoring checksum casing. */
+export function getHammingDistance(a: string, b: string): number {
+  const left = toHexChars(a)
+  const right = toHexChars(b)
+  let distance = 0
+  for (let i = 0; i < addressLength; i++) {
+    if (left[i] !== right[i]) distance++
+  }
+  return distance
+}
+
+/**
+ * Accepts candidates that pass `matcher` and resemble `target`, the way address poisoning picks its
+ * lures: same first and last characters, or few characters different overall. Casing is ignored.
+ */
+export function createLookAlikeMatcher(
+  matcher: AddressMatcher,
+  options: LookAlikeOptions,
+): AddressMatcher {
+  const target = toHexChars(options.target)
+  const prefix = target.slice(0, options.prefix)
+  const suffix = target.slice(addressLength - options.suffix)
+
+  return lowercaseAddress => {
+    if (options.rule === 'hamming') {
+      if (getHammingDistance(lowercaseAddress, target) > options.distance) return null
+    } else {
+      const hex = lowercaseAddress.slice(2)
+      if (!hex.startsWith(prefix) || !hex.endsWith(suffix)) return null
+    }
+    return matcher(lowercaseAddress)
+  }
+}
+
+/** Tags every result with its distance to the target. */
+export function withDistances(search: VanitySearch, { target }: LookAlikeOptions): VanitySearch {
+  return {
+    next: () => {
+      const batch = search.next()
+      batch.results.forEach(result => {
+        result.distance = getHammingDistance(result.address, target)
+      })
+      return batch
+    },
+  }
+}
+
+function binomial(n: number, k: number): number {
+  let result = 1
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i
+  }
+  return result
+}
+
+/** Probability that a random address resembles the target under `options.rule`. */
+export function getLookAlikeProbability(options: LookAlikeOptions): number {
+  if (options.rule === 'affixes') {
+    return Math.pow(16, -(options.prefix + options.suffix))
+  }
+  // At most `distance` of the 40 characters differ, each one independently with odds 15/16
+  let probability = 0
+  for (let k = 0; k <= Math.min(options.distance, addressLength); k++) {
+    probability +=
+      binomial(addressLength, k) * Math.pow(15 / 16, k) * Math.pow(1 / 16, addressLength - k)
+  }
+  return probability
+}
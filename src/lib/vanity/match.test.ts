@@ -0,0 +1,72 @@
+import type { VanityConfig } from './types'
+import { createAddressMatcher, getMatchSegments, matchAddress } from './match'
+import { defaultStructureRules } from './structure'
+
+const config: VanityConfig = {
+  count: 1,
+  startsWith: '',
+  endsWith: '',
+  prefixSuffixMode: 'and',
+  includes: '',
+  caseSensitive: false,
+  includesMode: 'all',
+  pattern: '',
+  dictionary: 'off',
+  structure: defaultStructureRules,
+}
+
+// EIP-55 test vector
+const address = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed'
+
+describe('matchAddress', () => {
+  test('ignores case by default', () => {
+    expect(matchAddress(address, { ...config, startsWith: '5AAEB' })).toBe(true)
+    expect(matchAddress(address, { ...config, endsWith: 'beaed' })).toBe(true)
+  })
+
+  test('case-sensitive letters follow the checksum', () => {
+    expect(matchAddress(address, { ...config, startsWith: '5aAeb', caseSensitive: true })).toBe(
+      true,
+    )
+    expect(matchAddress(address, { ...config, startsWith: '5aaeb', caseSensitive: true })).toBe(
+      false,
+    )
+    expect(matchAddress(address, { ...config, includes: 'F3E', caseSensitive: true })).toBe(true)
+  })
+})
+
+describe('createAddressMatcher', () => {
+  test('returns the checksum address on a case-sensitive match', () => {
+    const matcher = createAddressMatcher({ ...config, endsWith: 'BeAed', caseSensitive: true })
+    expect(matcher(address.toLowerCase())).toBe(address)
+    expect(
+      createAddressMatcher({ ...config, endsWith: 'beaed', caseSensitive: true })(
+        address.toLowerCase(),
+      ),
+    ).toBeNull()
+  })
+})
+
+describe('getMatchSegments', () => {
+  test('marks the prefix, suffix and every include occurrence', () => {
+    expect(
+      getMatchSegments(address, { ...config, startsWith: '5aa', endsWith: 'ED', includes: '09' }),
+    ).toEqual([
+      { text: '0x', matched: false },
+      { text: '5aA', matched: true },
+      { text: 'eb6053F3E94C9b9A', matched: false },
+      { text: '09', matched: true },
+      { text: 'f33669435E7Ef1BeA', matched: false },
+      { text: 'ed', matched: true },
+    ])
+  })
+
+  test('leaves characters that only match in another case when case-sensitive', () => {
+    expect(
+      getMatchSegments(address, { ...config, startsWith: '5aaeb', caseSensitive: true }),
+    ).toEqual([
+      { text: '0x', matched: false },
+      { text: address.slice(2), matched: false },
+    ])
+  })
+})
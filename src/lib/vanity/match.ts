@@ -1,6 +1,15 @@
 import type { VanityConfig } from './types'
+import { getAddress } from 'viem'
+import { matchHexWord } from './hex-words'
+import { compilePattern } from './pattern'
+import { matchStructure } from './structure'
 
-export function matchAddress(address: string, config: VanityConfig): boolean {
+export function matchAddress(
+  address: string,
+  config: VanityConfig,
+  // Callers matching many addresses pass the pattern compiled once
+  compiledPattern: RegExp | null = compilePattern(config.pattern, config.caseSensitive),
+): boolean {
   let targetAddress = address
   let startsWith = config.startsWith
   let endsWith = config.endsWith
@@ -63,5 +72,76 @@ export function matchAddress(address: string, config: VanityConfig): boolean {
     }
   }
 
+  if (compiledPattern != null && !compiledPattern.test(cleanAddress)) return false
+
+  // Bundled words are lowercase; their case never has to match the checksum
+  if (!matchHexWord(cleanAddress.toLowerCase(), config.dictionary)) return false
+  if (!matchStructure(cleanAddress.toLowerCase(), config.structure)) return false
+
   return true
 }
+
+/** Resolves a lowercase 0x-prefixed address to its checksummed form when it is accepted, else `null`. */
+export type AddressMatcher = (lowercaseAddress: string) => string | null
+
+/**
+ * Returns a matcher for lowercase hex addresses that resolves to the checksummed address on a
+ * match. Case-insensitive matching is tried first so the checksum is only hashed for candidates.
+ */
+export function createAddressMatcher(config: VanityConfig): AddressMatcher {
+  const prefilterConfig: VanityConfig = { ...config, caseSensitive: false }
+  const prefilterPattern = compilePattern(config.pattern, false)
+  const pattern = compilePattern(config.pattern, config.caseSensitive)
+
+  return lowercaseAddress => {
+    if (!matchAddress(lowercaseAddress, prefilterConfig, prefilterPattern)) return null
+
+    const address = getAddress(lowercaseAddress)
+    if (config.caseSensitive && !matchAddress(address, config, pattern)) return null
+
+    return address
+  }
+}
+
+export interface MatchSegment {
+  text: string
+  matched: boolean
+}
+
+/**
+ * Splits an address into runs of characters that the prefix, suffix or include tokens of `config`
+ * matched, for highlighting. Pattern, dictionary and structure rules are not highlighted.
+ */
+export function getMatchSegments(address: string, config: VanityConfig): MatchSegment[] {
+  const normalize = (value: string) => (config.caseSensitive ? value : value.toLowerCase())
+  const clean = address.startsWith('0x') ? address.slice(2) : address
+  const target = normalize(clean)
+  const matched = new Array<boolean>(clean.length).fill(false)
+  const mark = (start: number, length: number) => matched.fill(true, start, start + length)
+
+  const startsWith = normalize(config.startsWith.replace(/^0x/, ''))
+  const endsWith = normalize(config.endsWith.replace(/^0x/, ''))
+  if (startsWith !== '' && target.startsWith(startsWith)) mark(0, startsWith.length)
+  if (endsWith !== '' && target.endsWith(endsWith)) {
+    mark(target.length - endsWith.length, endsWith.length)
+  }
+  normalize(config.includes)
+    .split(/[, ]+/)
+    .filter(Boolean)
+    .forEach(keyword => {
+      for (let i = target.indexOf(keyword); i !== -1; i = target.indexOf(keyword, i + 1)) {
+        mark(i, keyword.length)
+      }
+    })
+
+  const segments: MatchSegment[] = address.startsWith('0x') ? [{ text: '0x', matched: false }] : []
+  for (let i = 0; i < clean.length; i++) {
+    const last = segments[segments.length - 1]
+    if (i > 0 && last.matched === matched[i]) {
+      last.text += clean[i]
+    } else {
+      segments.push({ text: clean[i], matched: matched[i] })
+    }
+  }
+  return segments
+}
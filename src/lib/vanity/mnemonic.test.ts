@@ -0,0 +1,35 @@
+import { mnemonicToAccount } from 'viem/accounts'
+import { defaultVanityConfig } from './defaults'
+import { createAddressMatcher } from './match'
+import { createMnemonicSearch, getDerivationPath } from './mnemonic'
+
+describe('getDerivationPath', () => {
+  test('works', () => {
+    expect(getDerivationPath("m/44'/60'/0'/0/0", 0)).toBe("m/44'/60'/0'/0/0")
+    expect(getDerivationPath("m/44'/60'/0'/0/3", 2)).toBe("m/44'/60'/0'/0/5")
+    expect(getDerivationPath("m/44'/60'/0'", 1)).toBe("m/44'/60'/1'")
+  })
+})
+
+describe('createMnemonicSearch', () => {
+  test('derives every index of a mnemonic', () => {
+    const search = createMnemonicSearch(
+      createAddressMatcher(defaultVanityConfig),
+      { path: "m/44'/60'/0'/0/0", accounts: 3, wordCount: 12 },
+      1,
+    )
+    const { attempts, results } = search.next()
+    expect(attempts).toBe(3)
+    expect(results.map(r => r.path)).toEqual([
+      "m/44'/60'/0'/0/0",
+      "m/44'/60'/0'/0/1",
+      "m/44'/60'/0'/0/2",
+    ])
+    results.forEach(result => {
+      expect(result.mnemonic!.split(' ')).toHaveLength(12)
+      expect(
+        mnemonicToAccount(result.mnemonic!, { path: result.path as `m/44'/60'/${string}` }).address,
+      ).toBe(result.address)
+    })
+  })
+})
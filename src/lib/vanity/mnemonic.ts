@@ -0,0 +1,81 @@
+import type { AddressMatcher } from './match'
+import type { MnemonicOptions, VanityResult, VanitySearch } from './types'
+import { secp256k1 } from '@noble/curves/secp256k1'
+import { mnemonicToSeedSync } from '@scure/bip39'
+import { english, generateMnemonic, HDKey, mnemonicToAccount } from 'viem/accounts'
+import { InternalError } from '../errors/common'
+import { publicKeyToLowercaseAddress } from './walker'
+
+export const defaultDerivationPath = "m/44'/60'/0'/0/0"
+
+// Each mnemonic pays for a 2048 round PBKDF2 seed, so batches are far smaller than for raw keys
+export const mnemonicBatchSize = 8
+
+const hardenedOffset = 0x80000000
+
+export const derivationPathRegex = /^m(\/\d+'?)+$/
+
+/** Splits `m/…/i` into the parent path and the first child index, hardened or not. */
+function splitDerivationPath(path: string) {
+  const segments = path.split('/')
+  const last = segments.pop()!
+  const hardened = last.endsWith("'")
+  return {
+    parentPath: segments.join('/'),
+    firstIndex: Number(hardened ? last.slice(0, -1) : last),
+    hardened,
+  }
+}
+
+/** Full derivation path of the `offset`-th account after the configured one. */
+export function getDerivationPath(path: string, offset: number): string {
+  const { parentPath, firstIndex, hardened } = splitDerivationPath(path)
+  return `${parentPath}/${firstIndex + offset}${hardened ? "'" : ''}`
+}
+
+/**
+ * Generates random BIP-39 mnemonics and checks the addresses of the first `accounts` indexes at
+ * `path`. Every derived address counts as one attempt.
+ */
+export function createMnemonicSearch(
+  matcher: AddressMatcher,
+  { path, accounts, wordCount }: MnemonicOptions,
+  batchSize: number,
+): VanitySearch {
+  const { parentPath, firstIndex, hardened } = splitDerivationPath(path)
+  // 12 words carry 128 bits of entropy, 24 words 256 bits
+  const strength = wordCount === 24 ? 256 : 128
+
+  return {
+    next: () => {
+      const results: VanityResult[] = []
+
+      for (let i = 0; i < batchSize; i++) {
+        const mnemonic = generateMnemonic(english, strength)
+        const parent = HDKey.fromMasterSeed(mnemonicToSeedSync(mnemonic)).derive(parentPath)
+
+        for (let offset = 0; offset < accounts; offset++) {
+          const child = parent.deriveChild(firstIndex + offset + (hardened ? hardenedOffset : 0))
+          const publicKey = secp256k1.Point.fromBytes(child.publicKey!).toBytes(false).subarray(1)
+
+          const address = matcher(publicKeyToLowercaseAddress(publicKey))
+          if (address == null) continue
+
+          const accountPath = getDerivationPath(path, offset)
+          const account = mnemonicToAccount(mnemonic, {
+            // viem only types BIP-44 Ethereum paths but derives any path
+            path: accountPath as `m/44'/60'/${string}`,
+          })
+          if (account.address !== address) {
+            throw new InternalError(
+              'Mnemonic search derived an address that does not match its path.',
+            )
+          }
+          results.push({ address, mnemonic, path: accountPath, createdAt: Date.now() })
+        }
+      }
+
+      return { attempts: batchSize * accounts, results }
+    },
+  }
+}
@@ -0,0 +1,64 @@
+import { InvalidPatternError } from '../errors/vanity'
+import { compilePattern, getMaskProbability } from './pattern'
+
+const address = '5aaeb6053f3e94c9b9a09f33669435e7ef1beaed'
+
+describe('compilePattern', () => {
+  test('masks match from the start and "..." anchors the end', () => {
+    expect(compilePattern('0x5a??b6', false)!.test(address)).toBe(true)
+    expect(compilePattern('5a??b7', false)!.test(address)).toBe(false)
+    expect(compilePattern('5aae...beaed', false)!.test(address)).toBe(true)
+    expect(compilePattern('5aae...beae', false)!.test(address)).toBe(false)
+    expect(compilePattern('...eaed', false)!.test(address)).toBe(true)
+  })
+
+  test('classes and repetition', () => {
+    expect(compilePattern('[0-5][a-f]', false)!.test(address)).toBe(true)
+    expect(compilePattern('5(a)\\1e', false)!.test(address)).toBe(true)
+    expect(compilePattern('(.)\\1{5}', false)!.test('000000' + address.slice(6))).toBe(true)
+    expect(compilePattern('(.)\\1{5}', false)!.test(address)).toBe(false)
+  })
+
+  test('patterns without "..." are anchored at the start', () => {
+    // A run in the middle of the address is not found, only one at the start
+    const withRun = address.slice(0, 10) + '000000' + address.slice(16)
+    expect(compilePattern('(.)\\1{5}', false)!.test(withRun)).toBe(false)
+    expect(compilePattern('6053', false)!.test(address)).toBe(false)
+  })
+
+  test('rejects nested and oversized repetition', () => {
+    expect(() => compilePattern('(a{1,}){1,}', false)).toThrow(InvalidPatternError)
+    expect(() => compilePattern('((.)\\2{2}){3}', false)).toThrow(InvalidPatternError)
+    expect(() => compilePattern('(.?{2}){2}', false)).toThrow(InvalidPatternError)
+    expect(() => compilePattern('a{0,1000}', false)).toThrow(InvalidPatternError)
+    // Repeating a plain group, or repetition inside an unrepeated group, stays allowed
+    expect(compilePattern('(ab){3}', false)).not.toBeNull()
+    expect(compilePattern('(a{2}b)', false)).not.toBeNull()
+  })
+
+  test('respects checksum case when case-sensitive', () => {
+    const checksum = '5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed'
+    expect(compilePattern('5aA', true)!.test(checksum)).toBe(true)
+    expect(compilePattern('5aa', true)!.test(checksum)).toBe(false)
+  })
+
+  test('rejects invalid patterns', () => {
+    expect(compilePattern('', false)).toBeNull()
+    expect(() => compilePattern('xyz', false)).toThrow(InvalidPatternError)
+    expect(() => compilePattern('[0-', false)).toThrow(InvalidPatternError)
+    expect(() => compilePattern('\\1(.)', false)).toThrow(InvalidPatternError)
+    expect(() => compilePattern('a...b...c', false)).toThrow(InvalidPatternError)
+    expect(() => compilePattern('?{41}', false)).toThrow(InvalidPatternError)
+  })
+})
+
+describe('getMaskProbability', () => {
+  test('works', () => {
+    expect(getMaskProbability('', false)).toBe(1)
+    expect(getMaskProbability('????dead????...??beef', false)).toBe(Math.pow(16, -8))
+    expect(getMaskProbability('d0ad', true)).toBe(Math.pow(16, -4) / 8)
+    expect(getMaskProbability('[0-3]', false)).toBe(4 / 16)
+    expect(getMaskProbability('[A-F]', true)).toBe(6 / 32)
+    expect(getMaskProbability('(.)\\1{5}', false)).toBe(Math.pow(16, -5))
+  })
+})
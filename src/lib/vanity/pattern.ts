@@ -0,0 +1,245 @@
+import { InvalidPatternError } from '../errors/vanity'
+
+/**
+ * Pattern language for positional matching, compiled once into a RegExp:
+ *
+ * - `0-9a-f` literal hex character, `?` or `.` any character
+ * - `[0-3]`, `[a-f5]` character classes
+ * - `( … )` groups, `\1` … `\9` back references, `{n}` / `{n,m}` / `{n,}` repetition
+ * - `...` once, to skip ahead: the part after it is anchored to the end of the address
+ *
+ * Patterns are always anchored: without `...` they match from the start of the address, like a
+ * prefix mask, so `(.)\1{5}` only accepts a run at the start. Runs anywhere are the structure
+ * rules' job, see `lib/vanity/structure.ts`.
+ *
+ * A repeated group cannot contain a repetition itself, and repetitions stop at 40: nested
+ * quantifiers backtrack exponentially, and the RegExp runs on every candidate.
+ */
+
+export type PatternNode = (
+  | { type: 'literal'; char: string }
+  | { type: 'any' }
+  | { type: 'class'; source: string; chars: string[] }
+  | { type: 'group'; index: number; nodes: PatternNode[] }
+  | { type: 'backref'; index: number; length: number }
+) & { min: number; max: number | null }
+
+export type ParsedPattern = {
+  head: PatternNode[]
+  tail: PatternNode[] | null
+}
+
+const hexChars = '0123456789abcdefABCDEF'
+const addressLength = 40
+
+function expandClass(source: string, position: number): string[] {
+  const chars = new Set<string>()
+  for (let i = 0; i < source.length; i++) {
+    const from = source[i]
+    if (!hexChars.includes(from)) {
+      throw new InvalidPatternError(`Invalid character "${from}" in class at ${position}.`)
+    }
+    if (source[i + 1] === '-' && i + 2 < source.length) {
+      const to = source[i + 2]
+      if (!hexChars.includes(to) || to.charCodeAt(0) < from.charCodeAt(0)) {
+        throw new InvalidPatternError(`Invalid range "${from}-${to}" at ${position}.`)
+      }
+      for (let code = from.charCodeAt(0); code <= to.charCodeAt(0); code++) {
+        const char = String.fromCharCode(code)
+        if (hexChars.includes(char)) chars.add(char)
+      }
+      i += 2
+    } else {
+      chars.add(from)
+    }
+  }
+  if (chars.size === 0) {
+    throw new InvalidPatternError(`Empty class at ${position}.`)
+  }
+  return [...chars]
+}
+
+const hasRepetition = (nodes: PatternNode[]): boolean =>
+  nodes.some(
+    node =>
+      node.min !== 1 || node.max !== 1 || (node.type === 'group' && hasRepetition(node.nodes)),
+  )
+
+function createParser(pattern: string) {
+  let position = 0
+  let groupCount = 0
+  const groupLengths = new Map<number, number>()
+
+  const parseQuantifier = (node: PatternNode) => {
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(position))
+    if (match == null) return node
+    position += match[0].length
+    const min = Number(match[1])
+    const max = match[2] == null ? min : match[3] === '' ? null : Number(match[3])
+    if (max != null && max < min) {
+      throw new InvalidPatternError(`Invalid repetition "${match[0]}".`)
+    }
+    if (Math.max(min, max ?? 0) > addressLength) {
+      throw new InvalidPatternError(`Repetition "${match[0]}" is longer than an address.`)
+    }
+    if (node.type === 'group' && hasRepetition(node.nodes)) {
+      throw new InvalidPatternError(
+        `Repeated group at ${position - match[0].length} contains a repetition; nested repetition is not supported.`,
+      )
+    }
+    return { ...node, min, max }
+  }
+
+  const parseSequence = (inGroup: boolean): PatternNode[] => {
+    const nodes: PatternNode[] = []
+    while (position < pattern.length) {
+      const char = pattern[position]
+      if (pattern.startsWith('...', position) || (char === ')' && inGroup)) break
+
+      let node: PatternNode
+      if (hexChars.includes(char)) {
+        node = { type: 'literal', char, min: 1, max: 1 }
+        position++
+      } else if (char === '?' || char === '.') {
+        node = { type: 'any', min: 1, max: 1 }
+        position++
+      } else if (char === '[') {
+        const end = pattern.indexOf(']', position)
+        if (end === -1) throw new InvalidPatternError(`Unclosed "[" at ${position}.`)
+        const source = pattern.slice(position + 1, end)
+        node = { type: 'class', source, chars: expandClass(source, position), min: 1, max: 1 }
+        position = end + 1
+      } else if (char === '(') {
+        const index = ++groupCount
+        position++
+        const nodes = parseSequence(true)
+        if (pattern[position] !== ')') throw new InvalidPatternError('Unclosed "(".')
+        position++
+        groupLengths.set(index, getMinLength(nodes))
+        node = { type: 'group', index, nodes, min: 1, max: 1 }
+      } else if (char === '\\' && /[1-9]/.test(pattern[position + 1] ?? '')) {
+        const index = Number(pattern[position + 1])
+        const length = groupLengths.get(index)
+        if (length == null) {
+          throw new InvalidPatternError(`Back reference \\${index} has no group before it.`)
+        }
+        node = { type: 'backref', index, length, min: 1, max: 1 }
+        position += 2
+      } else {
+        throw new InvalidPatternError(`Unexpected "${char}" at ${position}.`)
+      }
+      nodes.push(parseQuantifier(node))
+    }
+    return nodes
+  }
+
+  const getNodeLength = (node: PatternNode): number => {
+    const length =
+      node.type === 'group' ? getMinLength(node.nodes) : node.type === 'backref' ? node.length : 1
+    return length * node.min
+  }
+
+  const getMinLength = (nodes: PatternNode[]) =>
+    nodes.reduce((sum, node) => sum + getNodeLength(node), 0)
+
+  const parse = (): ParsedPattern => {
+    const head = parseSequence(false)
+    let tail: PatternNode[] | null = null
+    if (pattern.startsWith('...', position)) {
+      position += 3
+      tail = parseSequence(false)
+    }
+    if (position < pattern.length) {
+      throw new InvalidPatternError(
+        pattern.startsWith('...', position)
+          ? 'Only one "..." gap is allowed.'
+          : `Unexpected "${pattern[position]}" at ${position}.`,
+      )
+    }
+
+    const length = getMinLength(head) + (tail != null ? getMinLength(tail) : 0)
+    if (length > addressLength) {
+      throw new InvalidPatternError(`Pattern covers ${length} characters, addresses have 40.`)
+    }
+    return { head, tail }
+  }
+
+  return { parse }
+}
+
+export function parsePattern(pattern: string): ParsedPattern {
+  return createParser(pattern.trim().replace(/^0x/i, '')).parse()
+}
+
+function nodesToSource(nodes: PatternNode[]): string {
+  return nodes
+    .map(node => {
+      const atom =
+        node.type === 'literal'
+          ? node.char
+          : node.type === 'any'
+            ? '.'
+            : node.type === 'class'
+              ? `[${node.source}]`
+              : node.type === 'group'
+                ? `(${nodesToSource(node.nodes)})`
+                : `\\${node.index}`
+      if (node.min === 1 && node.max === 1) return atom
+      return node.max === node.min
+        ? `${atom}{${node.min}}`
+        : `${atom}{${node.min},${node.max ?? ''}}`
+    })
+    .join('')
+}
+
+/**
+ * Compiles a pattern into a RegExp for addresses without the `0x` prefix. Case-insensitive
+ * patterns should be tested against lowercase addresses, case-sensitive ones against checksums.
+ */
+export function compilePattern(pattern: string, caseSensitive: boolean): RegExp | null {
+  if (pattern.trim() === '') return null
+  const { head, tail } = parsePattern(pattern)
+  const source = `^${nodesToSource(head)}${tail != null ? `.*${nodesToSource(tail)}$` : ''}`
+  return new RegExp(source, caseSensitive ? '' : 'i')
+}
+
+function getCharProbability(char: string, caseSensitive: boolean) {
+  return caseSensitive && /[a-f]/i.test(char) ? 1 / 32 : 1 / 16
+}
+
+function getNodesProbability(nodes: PatternNode[], caseSensitive: boolean): number {
+  return nodes.reduce((probability, node) => {
+    let atom: number
+    if (node.type === 'literal') {
+      atom = getCharProbability(node.char, caseSensitive)
+    } else if (node.type === 'any') {
+      atom = 1
+    } else if (node.type === 'class') {
+      const chars = caseSensitive ? node.chars : [...new Set(node.chars.map(c => c.toLowerCase()))]
+      atom = Math.min(
+        chars.reduce((sum, char) => sum + getCharProbability(char, caseSensitive), 0),
+        1,
+      )
+    } else if (node.type === 'group') {
+      atom = getNodesProbability(node.nodes, caseSensitive)
+    } else {
+      // Repeating whatever the group captured: one specific character per position
+      atom = Math.pow(1 / 16, node.length)
+    }
+    // Optional repetitions only make a match easier, so the minimum gives the odds of the rarest case
+    return probability * Math.pow(atom, node.min)
+  }, 1)
+}
+
+/**
+ * Probability that a random address matches the pattern. Exact for masks, classes and fixed
+ * repetition; back references ignore checksum case.
+ */
+export function getMaskProbability(pattern: string, caseSensitive: boolean): number {
+  if (pattern.trim() === '') return 1
+  const { head, tail } = parsePattern(pattern)
+  return (
+    getNodesProbability(head, caseSensitive) *
+    (tail != null ? getNodesProbability(tail, caseSensitive) : 1)
+  )
+}
@@ -0,0 +1,91 @@
+import type { SafeOptions } from './types'
+import type { Hex } from 'viem'
+import { decodeFunctionData, encodePacked, getContractAddress, keccak256 } from 'viem'
+import { InvalidSafeSetupError } from '../errors/vanity'
+import { defaultVanityConfig } from './defaults'
+import { createAddressMatcher } from './match'
+import {
+  createSafeSearch,
+  encodeSafeInitializer,
+  safeDeployments,
+  safeProxyFactoryAbi,
+} from './safe'
+
+const options: SafeOptions = {
+  owners: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266, 0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  threshold: 2,
+  singleton: safeDeployments.safe,
+  factory: safeDeployments.factory,
+  fallbackHandler: safeDeployments.fallbackHandler,
+  proxyCreationCode: '0x608060405234801561001057600080fd5b50',
+}
+
+describe('createSafeSearch', () => {
+  test('every nonce derives its reported address and deployment calldata', () => {
+    const { attempts, results } = createSafeSearch(
+      createAddressMatcher(defaultVanityConfig),
+      options,
+      8,
+    ).next()
+    expect(attempts).toBe(8)
+    expect(results).toHaveLength(8)
+
+    const initializer = encodeSafeInitializer(options)
+    const initCodeHash = keccak256(
+      encodePacked(
+        ['bytes', 'uint256'],
+        [options.proxyCreationCode as Hex, BigInt(options.singleton)],
+      ),
+    )
+    results.forEach(result => {
+      const saltNonce = BigInt(result.saltNonce!)
+      expect(
+        getContractAddress({
+          opcode: 'CREATE2',
+          from: options.factory as Hex,
+          salt: keccak256(
+            encodePacked(['bytes32', 'uint256'], [keccak256(initializer), saltNonce]),
+          ),
+          bytecodeHash: initCodeHash,
+        }),
+      ).toBe(result.address)
+      expect(
+        decodeFunctionData({ abi: safeProxyFactoryAbi, data: result.calldata as Hex }).args,
+      ).toEqual([options.singleton, initializer, saltNonce])
+    })
+  })
+
+  test('only reports matching addresses', () => {
+    const search = createSafeSearch(
+      createAddressMatcher({ ...defaultVanityConfig, startsWith: 'a' }),
+      options,
+      256,
+    )
+    search.next().results.forEach(result => expect(result.address.toLowerCase()).toMatch(/^0xa/))
+  })
+
+  test('rejects setups the Safe would revert on', () => {
+    const matcher = createAddressMatcher(defaultVanityConfig)
+    expect(() => createSafeSearch(matcher, { ...options, threshold: 3 }, 1)).toThrow(
+      InvalidSafeSetupError,
+    )
+    expect(() =>
+      createSafeSearch(
+        matcher,
+        { ...options, owners: `${safeDeployments.safe},${safeDeployments.safe.toLowerCase()}` },
+        1,
+      ),
+    ).toThrow('Owners must not repeat.')
+    expect(() =>
+      createSafeSearch(
+        matcher,
+        // Mixed case with a wrong checksum
+        { ...options, owners: '0xab3d8B6b31002ee46aCbc248F35946aa26004D80' },
+        1,
+      ),
+    ).toThrow(InvalidSafeSetupError)
+    expect(() => createSafeSearch(matcher, { ...options, proxyCreationCode: '' }, 1)).toThrow(
+      InvalidSafeSetupError,
+    )
+  })
+})
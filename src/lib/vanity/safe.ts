@@ -0,0 +1,170 @@
+import type { AddressMatcher } from './match'
+import type { SafeOptions, VanityResult, VanitySearch } from './types'
+import type { Address, Hex } from 'viem'
+import { keccak_256 } from '@noble/hashes/sha3'
+import {
+  bytesToHex,
+  concatHex,
+  encodeFunctionData,
+  getContractAddress,
+  hexToBigInt,
+  hexToBytes,
+  isAddress,
+  isHex,
+  keccak256,
+  numberToHex,
+  padHex,
+  parseAbi,
+  zeroAddress,
+} from 'viem'
+import { InternalError } from '../errors/common'
+import { InvalidSafeSetupError } from '../errors/vanity'
+import { incrementBigEndian } from './create2'
+
+/** Canonical v1.4.1 deployments, at the same address on every chain they are deployed to. */
+export const safeDeployments = {
+  factory: '0x4e1DCf7AD4e460CfD30791CCC4F9c8a4f820ec67',
+  safe: '0x41675C099F32341bf84BFc5382aF534df5C7461a',
+  safeL2: '0x29fcB43b46531BcA003ddC8FCB67FFE91900C762',
+  fallbackHandler: '0xfd0732Dc9E303f09fCEf3a7388Ad10A83459Ec99',
+} as const
+
+export const safeAbi = parseAbi([
+  'function setup(address[] _owners, uint256 _threshold, address to, bytes data, address fallbackHandler, address paymentToken, uint256 payment, address paymentReceiver)',
+])
+
+export const safeProxyFactoryAbi = parseAbi([
+  'function proxyCreationCode() pure returns (bytes)',
+  'function createProxyWithNonce(address _singleton, bytes initializer, uint256 saltNonce) returns (address proxy)',
+])
+
+/** Owners as typed in the form: addresses separated by commas, spaces or new lines. */
+export function parseSafeOwners(owners: string): string[] {
+  return owners.split(/[\s,]+/).filter(owner => owner !== '')
+}
+
+function validateSafeOptions({
+  owners,
+  threshold,
+  singleton,
+  factory,
+  fallbackHandler,
+  proxyCreationCode,
+}: SafeOptions) {
+  const ownerList = parseSafeOwners(owners)
+  // Strict: a mixed-case address with a wrong checksum is likely a typo, and viem refuses to encode it
+  if (ownerList.length === 0 || ownerList.some(owner => !isAddress(owner))) {
+    throw new InvalidSafeSetupError('Owners must be one or more addresses with a valid checksum.')
+  }
+  if (new Set(ownerList.map(owner => owner.toLowerCase())).size !== ownerList.length) {
+    throw new InvalidSafeSetupError('Owners must not repeat.')
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > ownerList.length) {
+    throw new InvalidSafeSetupError(`Threshold must be between 1 and ${ownerList.length}.`)
+  }
+  if (![singleton, factory, fallbackHandler].every(value => isAddress(value))) {
+    throw new InvalidSafeSetupError(
+      'Singleton, factory and fallback handler must be addresses with a valid checksum.',
+    )
+  }
+  if (!isHex(proxyCreationCode) || proxyCreationCode.length <= 2) {
+    throw new InvalidSafeSetupError('Proxy creation code must be hex bytecode.')
+  }
+  return ownerList as Address[]
+}
+
+/** `setup` call the proxy runs on deployment: no module, no payment, only the fallback handler. */
+export function encodeSafeInitializer(options: SafeOptions): Hex {
+  const owners = validateSafeOptions(options)
+  return encodeFunctionData({
+    abi: safeAbi,
+    functionName: 'setup',
+    args: [
+      owners,
+      BigInt(options.threshold),
+      zeroAddress,
+      '0x',
+      options.fallbackHandler as Address,
+      zeroAddress,
+      0n,
+      zeroAddress,
+    ],
+  })
+}
+
+/** Hash of the proxy init code: the creation code followed by the singleton as a uint256. */
+export function getSafeInitCodeHash({ proxyCreationCode, singleton }: SafeOptions): Hex {
+  return keccak256(concatHex([proxyCreationCode as Hex, padHex(singleton as Address)]))
+}
+
+/** `createProxyWithNonce` calldata deploying the Safe of `saltNonce`, to send to the factory. */
+export function encodeSafeDeployment(options: SafeOptions, saltNonce: bigint): Hex {
+  return encodeFunctionData({
+    abi: safeProxyFactoryAbi,
+    functionName: 'createProxyWithNonce',
+    args: [options.singleton as Address, encodeSafeInitializer(options), saltNonce],
+  })
+}
+
+/** Address of the Safe the factory deploys for `saltNonce`, as `createProxyWithNonce` derives it. */
+export function getSafeAddress(options: SafeOptions, saltNonce: bigint): Address {
+  const initializerHash = keccak256(encodeSafeInitializer(options))
+  return getContractAddress({
+    opcode: 'CREATE2',
+    from: options.factory as Address,
+    salt: keccak256(concatHex([initializerHash, numberToHex(saltNonce, { size: 32 })])),
+    bytecodeHash: getSafeInitCodeHash(options),
+  })
+}
+
+/**
+ * Mines the `saltNonce` of a Safe proxy. The factory salts CREATE2 with
+ * keccak256(keccak256(initializer) ++ saltNonce), so each attempt hashes twice: once for the salt,
+ * written straight into the CREATE2 preimage, once for the address.
+ */
+export function createSafeSearch(
+  matcher: AddressMatcher,
+  options: SafeOptions,
+  batchSize: number,
+): VanitySearch {
+  const initializer = encodeSafeInitializer(options)
+
+  // keccak256(initializer) (32) ++ saltNonce (32)
+  const saltPreimage = new Uint8Array(64)
+  saltPreimage.set(hexToBytes(keccak256(initializer)), 0)
+  const saltNonce = saltPreimage.subarray(32)
+  crypto.getRandomValues(saltNonce)
+
+  // 0xff ++ factory (20) ++ salt (32) ++ initCodeHash (32)
+  const preimage = new Uint8Array(1 + 20 + 32 + 32)
+  preimage[0] = 0xff
+  preimage.set(hexToBytes(options.factory as Address), 1)
+  preimage.set(hexToBytes(getSafeInitCodeHash(options)), 1 + 20 + 32)
+
+  return {
+    next: () => {
+      const results: VanityResult[] = []
+
+      for (let i = 0; i < batchSize; i++) {
+        incrementBigEndian(saltNonce)
+        preimage.set(keccak_256(saltPreimage), 1 + 20)
+
+        const address = matcher(bytesToHex(keccak_256(preimage).subarray(12)))
+        if (address == null) continue
+
+        const nonce = hexToBigInt(bytesToHex(saltNonce))
+        if (getSafeAddress(options, nonce) !== address) {
+          throw new InternalError('Safe search derived an address that does not match its nonce.')
+        }
+        results.push({
+          address,
+          saltNonce: nonce.toString(),
+          calldata: encodeSafeDeployment(options, nonce),
+          createdAt: Date.now(),
+        })
+      }
+
+      return { attempts: batchSize, results }
+    },
+  }
+}
@@ -0,0 +1,48 @@
+import type { VanityConfig } from './types'
+import { createAddressMatcher } from './match'
+import { createScoreMatcher, getAddressScore, getScoreProbability } from './score'
+import { defaultStructureRules } from './structure'
+
+const config: VanityConfig = {
+  count: 1,
+  startsWith: '',
+  endsWith: '',
+  prefixSuffixMode: 'and',
+  includes: '',
+  caseSensitive: false,
+  includesMode: 'all',
+  pattern: '',
+  dictionary: 'off',
+  structure: defaultStructureRules,
+}
+
+describe('getAddressScore', () => {
+  test('works', () => {
+    const address = '0x0000ab00cd00ef0012345678901234567890ab00'
+    expect(getAddressScore(address, 'leadingZeroBytes')).toBe(2)
+    expect(getAddressScore(address, 'zeroBytes')).toBe(6)
+    // Zero nibbles across a byte boundary are not a zero byte
+    expect(getAddressScore('0x0100', 'zeroBytes')).toBe(1)
+  })
+})
+
+describe('getScoreProbability', () => {
+  test('works', () => {
+    expect(getScoreProbability('leadingZeroBytes', 2)).toBe(1 / 65536)
+    expect(getScoreProbability('zeroBytes', 0)).toBeCloseTo(1)
+    expect(getScoreProbability('zeroBytes', 1)).toBeCloseTo(1 - Math.pow(255 / 256, 20))
+  })
+})
+
+describe('createScoreMatcher', () => {
+  test('only accepts improving scores', () => {
+    const matcher = createScoreMatcher(createAddressMatcher(config), {
+      metric: 'leadingZeroBytes',
+      target: 0,
+      top: 10,
+    })
+    expect(matcher('0x00ab000000000000000000000000000000000000')).not.toBeNull()
+    expect(matcher('0x00cd000000000000000000000000000000000000')).toBeNull()
+    expect(matcher('0x0000cd0000000000000000000000000000000000')).not.toBeNull()
+  })
+})
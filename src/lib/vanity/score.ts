@@ -0,0 +1,72 @@
+import type { AddressMatcher } from './match'
+import type { ScoreMetric, ScoreOptions, VanitySearch } from './types'
+
+export const scoreMetricLabels: Record<ScoreMetric, string> = {
+  leadingZeroBytes: 'Leading zero bytes',
+  zeroBytes: 'Total zero bytes',
+}
+
+/** Scores a lowercase or checksummed address; every zero byte saves calldata gas. */
+export function getAddressScore(address: string, metric: ScoreMetric): number {
+  const hex = address.startsWith('0x') ? address.slice(2) : address
+  let score = 0
+  for (let i = 0; i < hex.length; i += 2) {
+    if (hex[i] === '0' && hex[i + 1] === '0') {
+      score++
+    } else if (metric === 'leadingZeroBytes') {
+      break
+    }
+  }
+  return score
+}
+
+/** Probability that a random address scores at least `score`. */
+export function getScoreProbability(metric: ScoreMetric, score: number): number {
+  if (metric === 'leadingZeroBytes') {
+    return Math.pow(256, -score)
+  }
+  // Binomial tail over the 20 bytes of an address
+  let probability = 0
+  let combinations = 1
+  for (let k = 0; k <= 20; k++) {
+    if (k >= score) {
+      probability += combinations * Math.pow(1 / 256, k) * Math.pow(255 / 256, 20 - k)
+    }
+    combinations = (combinations * (20 - k)) / (k + 1)
+  }
+  return probability
+}
+
+/**
+ * Accepts candidates that still pass `matcher` and beat the best score seen so far, so a worker
+ * only ever reports its improving best candidates.
+ */
+export function createScoreMatcher(
+  matcher: AddressMatcher,
+  { metric }: ScoreOptions,
+): AddressMatcher {
+  let best = -1
+
+  return lowercaseAddress => {
+    const score = getAddressScore(lowercaseAddress, metric)
+    if (score <= best) return null
+
+    const address = matcher(lowercaseAddress)
+    if (address != null) {
+      best = score
+    }
+    return address
+  }
+}
+
+export function withScores(search: VanitySearch, { metric }: ScoreOptions): VanitySearch {
+  return {
+    next: () => {
+      const batch = search.next()
+      batch.results.forEach(result => {
+        result.score = getAddressScore(result.address, metric)
+      })
+      return batch
+    },
+  }
+}
@@ -0,0 +1,58 @@
+import type { VanityOptions } from './types'
+import type { Hex } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { defaultVanityConfig, defaultVanityOptions } from './defaults'
+import { createAddressMatcher } from './match'
+import { createPrivateKeySearch, createVanitySearch } from './search'
+
+const privateKeyOptions: VanityOptions = { ...defaultVanityOptions, mode: 'privateKey' }
+
+describe('createPrivateKeySearch', () => {
+  test('every walked key derives its reported address', () => {
+    const search = createPrivateKeySearch(createAddressMatcher(defaultVanityConfig), 32)
+    for (let i = 0; i < 3; i++) {
+      const { attempts, results } = search.next()
+      expect(attempts).toBe(32)
+      expect(results).toHaveLength(32)
+      results.forEach(result => {
+        expect(privateKeyToAccount(result.privateKey as Hex).address).toBe(result.address)
+      })
+    }
+  })
+
+  test('walks consecutive keys', () => {
+    const { results } = createPrivateKeySearch(createAddressMatcher(defaultVanityConfig), 8).next()
+    const keys = results.map(result => BigInt(result.privateKey!))
+    keys.slice(1).forEach((key, i) => expect(key - keys[i]).toBe(1n))
+  })
+
+  test('matches case-sensitive patterns against the checksum address', () => {
+    const search = createPrivateKeySearch(
+      createAddressMatcher({ ...defaultVanityConfig, startsWith: 'A', caseSensitive: true }),
+      256,
+    )
+    for (let i = 0; i < 4; i++) {
+      search.next().results.forEach(result => expect(result.address.slice(2, 3)).toBe('A'))
+    }
+  })
+})
+
+describe('createVanitySearch', () => {
+  test('tags results with the matched pattern and honors retirement', () => {
+    const search = createVanitySearch(
+      [
+        { ...defaultVanityConfig, startsWith: '0' },
+        { ...defaultVanityConfig, startsWith: '1' },
+      ],
+      privateKeyOptions,
+      256,
+    )
+    const { results } = search.next()
+    results.forEach(result => {
+      expect(result.address.slice(2, 3)).toBe(String(result.patternIndex))
+    })
+
+    search.retire(0)
+    search.next().results.forEach(result => expect(result.patternIndex).toBe(1))
+  })
+})
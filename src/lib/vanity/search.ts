@@ -0,0 +1,117 @@
+import type { AddressMatcher } from './match'
+import type {
+  PatternSearch,
+  VanityConfig,
+  VanityOptions,
+  VanityResult,
+  VanitySearch,
+} from './types'
+import { numberToHex } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { InternalError } from '../errors/common'
+import { createPatternSet } from './batch'
+import { createCreateSearch } from './create'
+import { createCreate2Search } from './create2'
+import { createLookAlikeMatcher, withDistances } from './look-alike'
+import { createMnemonicSearch, mnemonicBatchSize } from './mnemonic'
+import { createSafeSearch } from './safe'
+import { createScoreMatcher, withScores } from './score'
+import { createSmartAccountSearch } from './smart-account'
+import { createSplitKeySearch } from './split-key'
+import { createKeyWalker, defaultBatchSize, publicKeyToLowercaseAddress } from './walker'
+
+export function createPrivateKeySearch(
+  matcher: AddressMatcher,
+  batchSize = defaultBatchSize,
+): VanitySearch {
+  const walker = createKeyWalker(batchSize)
+
+  return {
+    next: () => {
+      const results: VanityResult[] = []
+
+      walker.step((key, publicKey) => {
+        const address = matcher(publicKeyToLowercaseAddress(publicKey))
+        if (address == null) return
+
+        const privateKey = numberToHex(key, { size: 32 })
+        const account = privateKeyToAccount(privateKey)
+        if (account.address !== address) {
+          throw new InternalError('Vanity search derived an address that does not match its key.')
+        }
+        results.push({ address, privateKey, createdAt: Date.now() })
+      })
+
+      return { attempts: batchSize, results }
+    },
+  }
+}
+
+/**
+ * Tests every candidate against all `patterns` in a single pass. Each result is tagged with the
+ * index of the pattern it matched; retired patterns stop matching.
+ */
+export function createVanitySearch(
+  patterns: VanityConfig[],
+  options: VanityOptions,
+  batchSize = defaultBatchSize,
+): PatternSearch {
+  const patternSet = createPatternSet(patterns)
+  const search = createGoalSearch(patternSet.matcher, options, batchSize)
+
+  return {
+    next: () => {
+      const batch = search.next()
+      batch.results.forEach(result => {
+        result.patternIndex = patternSet.getPatternIndex(result.address)
+      })
+      return batch
+    },
+    retire: patternSet.retire,
+  }
+}
+
+// Same engines for every goal, only the way candidates are accepted differs
+function createGoalSearch(
+  matcher: AddressMatcher,
+  options: VanityOptions,
+  batchSize: number,
+): VanitySearch {
+  switch (options.goal) {
+    case 'score':
+      return withScores(
+        createModeSearch(createScoreMatcher(matcher, options.score), options, batchSize),
+        options.score,
+      )
+    case 'lookAlike':
+      return withDistances(
+        createModeSearch(createLookAlikeMatcher(matcher, options.lookAlike), options, batchSize),
+        options.lookAlike,
+      )
+    default:
+      return createModeSearch(matcher, options, batchSize)
+  }
+}
+
+function createModeSearch(
+  matcher: AddressMatcher,
+  options: VanityOptions,
+  batchSize: number,
+): VanitySearch {
+  switch (options.mode) {
+    case 'create':
+      return createCreateSearch(matcher, options.create, batchSize)
+    case 'create2':
+      return createCreate2Search(matcher, options.create2, batchSize)
+    case 'mnemonic':
+      return createMnemonicSearch(matcher, options.mnemonic, mnemonicBatchSize)
+    case 'splitKey':
+      return createSplitKeySearch(matcher, options.splitKey, batchSize)
+    case 'safe':
+      return createSafeSearch(matcher, options.safe, batchSize)
+    case 'smartAccount':
+      return createSmartAccountSearch(matcher, options.smartAccount, batchSize)
+    default:
+      return createPrivateKeySearch(matcher, batchSize)
+  }
+}
@@ -0,0 +1,30 @@
+import type { VanityResult } from './types'
+import { SessionPassphraseError } from '../errors/vanity'
+import { decryptSessionResults, deriveSessionKey, encryptSessionResults } from './session'
+
+const results: VanityResult[] = [
+  {
+    address: '0x00000000219ab540356cBB839Cbe05303d7705Fa',
+    privateKey: '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d',
+    createdAt: 1,
+  },
+]
+
+describe('session encryption', () => {
+  test('round-trips results with the same passphrase', async () => {
+    const key = await deriveSessionKey('correct horse')
+    const payload = await encryptSessionResults(key, results)
+    expect(payload.ciphertext).not.toContain(results[0].privateKey?.slice(2))
+
+    const reopened = await deriveSessionKey('correct horse', key.salt)
+    await expect(decryptSessionResults(reopened, payload)).resolves.toEqual(results)
+  })
+
+  test('rejects a wrong passphrase', async () => {
+    const key = await deriveSessionKey('correct horse')
+    const payload = await encryptSessionResults(key, results)
+
+    const wrong = await deriveSessionKey('battery staple', key.salt)
+    await expect(decryptSessionResults(wrong, payload)).rejects.toThrow(SessionPassphraseError)
+  })
+})
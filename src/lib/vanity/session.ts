@@ -0,0 +1,98 @@
+import type { VanityConfig, VanityOptions, VanityResult } from './types'
+import type { Hex } from 'viem'
+import { bytesToHex, hexToBytes } from 'viem'
+import { SessionPassphraseError } from '../errors/vanity'
+
+export type VanitySessionStatus = 'running' | 'paused' | 'finished'
+
+export interface EncryptedPayload {
+  iv: string
+  ciphertext: string
+}
+
+/** A search as persisted in IndexedDB. Results carry keys, so only their count is in clear. */
+export interface VanitySession {
+  id: string
+  createdAt: number
+  updatedAt: number
+  /** Still `running` after a reload means the tab went away mid-search */
+  status: VanitySessionStatus
+  /** Every pattern of the batch, each with its own count */
+  patterns: VanityConfig[]
+  options: VanityOptions
+  attempts: number
+  elapsedMs: number
+  resultCount: number
+  /** PBKDF2 salt of the passphrase key */
+  salt: string
+  results: EncryptedPayload
+}
+
+export interface SessionKey {
+  salt: string
+  key: CryptoKey
+}
+
+const pbkdf2Iterations = 600_000
+
+// Web Crypto only takes ArrayBuffer backed views, which viem's bytes are not typed as
+const toBytes = (hex: string) => new Uint8Array(hexToBytes(hex as Hex))
+
+export async function deriveSessionKey(
+  passphrase: string,
+  salt: string = bytesToHex(crypto.getRandomValues(new Uint8Array(16))),
+): Promise<SessionKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  )
+  const key = await crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      salt: toBytes(salt),
+      iterations: pbkdf2Iterations,
+    },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+  return { salt, key }
+}
+
+export async function encryptSessionResults(
+  { key }: SessionKey,
+  results: VanityResult[],
+): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(results)),
+  )
+  return { iv: bytesToHex(iv), ciphertext: bytesToHex(new Uint8Array(ciphertext)) }
+}
+
+export async function decryptSessionResults(
+  { key }: SessionKey,
+  { iv, ciphertext }: EncryptedPayload,
+): Promise<VanityResult[]> {
+  let plaintext: ArrayBuffer
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: toBytes(iv) },
+      key,
+      toBytes(ciphertext),
+    )
+  } catch (error) {
+    // GCM authentication is the only check a wrong passphrase fails
+    throw new SessionPassphraseError(undefined, {
+      cause: error instanceof Error ? error : undefined,
+    })
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext)) as VanityResult[]
+}
@@ -0,0 +1,120 @@
+import type { SmartAccountOptions } from './types'
+import type { Hex } from 'viem'
+import {
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeFunctionData,
+  encodePacked,
+  getContractAddress,
+  keccak256,
+  parseAbi,
+} from 'viem'
+import { InvalidAccountFactoryError } from '../errors/vanity'
+import { defaultVanityConfig } from './defaults'
+import { createAddressMatcher } from './match'
+import {
+  createSmartAccountSearch,
+  kernelFactoryAbi,
+  simpleAccountFactoryAbi,
+} from './smart-account'
+
+const options: SmartAccountOptions = {
+  template: 'simpleAccount',
+  factory: '0x9406Cc6185a346906296840746125a0E44976454',
+  proxyInitCode: '0x608060405260405161',
+  implementation: '0x8ABB13360b87Be5EEb1B98647A016adD927a136c',
+  owner: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  initData: '0x1234',
+}
+
+const create2 = (salt: Hex, initCode: Hex) =>
+  getContractAddress({
+    opcode: 'CREATE2',
+    from: options.factory as Hex,
+    salt,
+    bytecodeHash: keccak256(initCode),
+  })
+
+describe('createSmartAccountSearch', () => {
+  test('simpleAccount salts the proxy of initialize(owner) directly', () => {
+    const { attempts, results } = createSmartAccountSearch(
+      createAddressMatcher(defaultVanityConfig),
+      options,
+      8,
+    ).next()
+    expect(attempts).toBe(8)
+    expect(results).toHaveLength(8)
+
+    const initCode = encodePacked(
+      ['bytes', 'bytes'],
+      [
+        options.proxyInitCode as Hex,
+        encodeAbiParameters(
+          [{ type: 'address' }, { type: 'bytes' }],
+          [
+            options.implementation as Hex,
+            encodeFunctionData({
+              abi: parseAbi(['function initialize(address anOwner)']),
+              args: [options.owner as Hex],
+            }),
+          ],
+        ),
+      ],
+    )
+    results.forEach(result => {
+      expect(create2(result.salt as Hex, initCode)).toBe(result.address)
+      expect(
+        decodeFunctionData({ abi: simpleAccountFactoryAbi, data: result.calldata as Hex }).args,
+      ).toEqual([options.owner, BigInt(result.salt!)])
+    })
+  })
+
+  test('kernel hashes the init data with the salt', () => {
+    const kernel: SmartAccountOptions = { ...options, template: 'kernel' }
+    const { results } = createSmartAccountSearch(
+      createAddressMatcher(defaultVanityConfig),
+      kernel,
+      8,
+    ).next()
+    results.forEach(result => {
+      const salt = keccak256(
+        encodePacked(['bytes', 'bytes32'], [kernel.initData as Hex, result.salt as Hex]),
+      )
+      expect(create2(salt, kernel.proxyInitCode as Hex)).toBe(result.address)
+      expect(
+        decodeFunctionData({ abi: kernelFactoryAbi, data: result.calldata as Hex }).args,
+      ).toEqual([kernel.initData, result.salt])
+    })
+  })
+
+  test('custom factories only get the salt', () => {
+    const custom: SmartAccountOptions = { ...options, template: 'custom' }
+    const { results } = createSmartAccountSearch(
+      createAddressMatcher({ ...defaultVanityConfig, endsWith: 'b' }),
+      custom,
+      256,
+    ).next()
+    results.forEach(result => {
+      expect(result.address.toLowerCase()).toMatch(/b$/)
+      expect(create2(result.salt as Hex, custom.proxyInitCode as Hex)).toBe(result.address)
+      expect(result.calldata).toBeUndefined()
+    })
+  })
+
+  test('rejects incomplete templates', () => {
+    const matcher = createAddressMatcher(defaultVanityConfig)
+    expect(() => createSmartAccountSearch(matcher, { ...options, owner: '' }, 1)).toThrow(
+      InvalidAccountFactoryError,
+    )
+    expect(() =>
+      createSmartAccountSearch(
+        matcher,
+        { ...options, owner: '0xab3d8B6b31002ee46aCbc248F35946aa26004D80' },
+        1,
+      ),
+    ).toThrow(InvalidAccountFactoryError)
+    expect(() =>
+      createSmartAccountSearch(matcher, { ...options, template: 'kernel', initData: '0x' }, 1),
+    ).toThrow('Init data must be hex calldata.')
+  })
+})
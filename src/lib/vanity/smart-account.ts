@@ -0,0 +1,202 @@
+import type { AddressMatcher } from './match'
+import type {
+  AccountFactoryTemplate,
+  SmartAccountOptions,
+  VanityResult,
+  VanitySearch,
+} from './types'
+import type { Address, Hex } from 'viem'
+import { keccak_256 } from '@noble/hashes/sha3'
+import {
+  bytesToHex,
+  concatHex,
+  encodeAbiParameters,
+  encodeFunctionData,
+  getContractAddress,
+  hexToBytes,
+  isAddress,
+  isHex,
+  keccak256,
+  parseAbi,
+} from 'viem'
+import { InternalError } from '../errors/common'
+import { InvalidAccountFactoryError } from '../errors/vanity'
+import { createCreate2Search, incrementBigEndian } from './create2'
+
+export const accountFactoryTemplateLabels: Record<AccountFactoryTemplate, string> = {
+  simpleAccount: 'SimpleAccountFactory',
+  kernel: 'Kernel-Style (Hashed Init Data)',
+  custom: 'Custom Factory (Raw Salt)',
+}
+
+export const simpleAccountFactoryAbi = parseAbi([
+  'function accountImplementation() view returns (address)',
+  'function createAccount(address owner, uint256 salt) returns (address ret)',
+])
+
+const simpleAccountAbi = parseAbi(['function initialize(address anOwner)'])
+
+export const kernelFactoryAbi = parseAbi([
+  'function createAccount(bytes data, bytes32 salt) payable returns (address)',
+])
+
+const isBytecode = (value: string) => isHex(value) && value.length > 2 && value.length % 2 === 0
+
+function validateSmartAccountOptions(options: SmartAccountOptions) {
+  if (!isAddress(options.factory)) {
+    throw new InvalidAccountFactoryError('Factory must be an address with a valid checksum.')
+  }
+  if (!isBytecode(options.proxyInitCode)) {
+    throw new InvalidAccountFactoryError('Proxy init code must be hex bytecode.')
+  }
+  if (options.template === 'simpleAccount') {
+    if (!isAddress(options.implementation)) {
+      throw new InvalidAccountFactoryError(
+        'Account implementation must be an address with a valid checksum.',
+      )
+    }
+    if (!isAddress(options.owner)) {
+      throw new InvalidAccountFactoryError('Owner must be an address with a valid checksum.')
+    }
+  }
+  if (options.template === 'kernel' && !isBytecode(options.initData)) {
+    throw new InvalidAccountFactoryError('Init data must be hex calldata.')
+  }
+}
+
+/**
+ * Init code the factory deploys. SimpleAccountFactory appends the ERC1967Proxy constructor
+ * arguments, the implementation and its `initialize(owner)` call; other templates take it as is.
+ */
+export function getSmartAccountInitCode(options: SmartAccountOptions): Hex {
+  validateSmartAccountOptions(options)
+  if (options.template !== 'simpleAccount') return options.proxyInitCode as Hex
+
+  const initialize = encodeFunctionData({
+    abi: simpleAccountAbi,
+    functionName: 'initialize',
+    args: [options.owner as Address],
+  })
+  return concatHex([
+    options.proxyInitCode as Hex,
+    encodeAbiParameters(
+      [{ type: 'address' }, { type: 'bytes' }],
+      [options.implementation as Address, initialize],
+    ),
+  ])
+}
+
+/** CREATE2 salt of a mined salt: Kernel-style factories hash it together with the init data. */
+function getCreate2Salt(options: SmartAccountOptions, salt: Hex): Hex {
+  return options.template === 'kernel'
+    ? keccak256(concatHex([options.initData as Hex, salt]))
+    : salt
+}
+
+/** Counterfactual address of the account deployed with `salt`, as the factory's `getAddress`. */
+export function getSmartAccountAddress(options: SmartAccountOptions, salt: Hex): Address {
+  return getContractAddress({
+    opcode: 'CREATE2',
+    from: options.factory as Address,
+    salt: getCreate2Salt(options, salt),
+    bytecodeHash: keccak256(getSmartAccountInitCode(options)),
+  })
+}
+
+/** `createAccount` calldata to send to the factory, or the bundler as `factoryData`. */
+export function encodeSmartAccountDeployment(
+  options: SmartAccountOptions,
+  salt: Hex,
+): Hex | undefined {
+  switch (options.template) {
+    case 'simpleAccount':
+      return encodeFunctionData({
+        abi: simpleAccountFactoryAbi,
+        functionName: 'createAccount',
+        args: [options.owner as Address, BigInt(salt)],
+      })
+    case 'kernel':
+      return encodeFunctionData({
+        abi: kernelFactoryAbi,
+        functionName: 'createAccount',
+        args: [options.initData as Hex, salt],
+      })
+    default:
+      // A custom factory's entry point is unknown, the salt is all there is
+      return undefined
+  }
+}
+
+// Kernel-style: keccak256(initData ++ salt) is the CREATE2 salt, so each attempt hashes twice
+function createHashedSaltSearch(
+  matcher: AddressMatcher,
+  options: SmartAccountOptions,
+  batchSize: number,
+): VanitySearch {
+  const initData = hexToBytes(options.initData as Hex)
+  const saltPreimage = new Uint8Array(initData.length + 32)
+  saltPreimage.set(initData, 0)
+  const salt = saltPreimage.subarray(initData.length)
+  crypto.getRandomValues(salt)
+
+  // 0xff ++ factory (20) ++ salt (32) ++ initCodeHash (32)
+  const preimage = new Uint8Array(1 + 20 + 32 + 32)
+  preimage[0] = 0xff
+  preimage.set(hexToBytes(options.factory as Address), 1)
+  preimage.set(hexToBytes(keccak256(getSmartAccountInitCode(options))), 1 + 20 + 32)
+
+  return {
+    next: () => {
+      const results: VanityResult[] = []
+
+      for (let i = 0; i < batchSize; i++) {
+        incrementBigEndian(salt)
+        preimage.set(keccak_256(saltPreimage), 1 + 20)
+
+        const address = matcher(bytesToHex(keccak_256(preimage).subarray(12)))
+        if (address == null) continue
+
+        results.push({ address, salt: bytesToHex(salt), createdAt: Date.now() })
+      }
+
+      return { attempts: batchSize, results }
+    },
+  }
+}
+
+/**
+ * Mines the salt of an ERC-4337 account factory. Factories that salt CREATE2 directly run the
+ * CREATE2 search on the account's init code; each result also carries its deployment calldata.
+ */
+export function createSmartAccountSearch(
+  matcher: AddressMatcher,
+  options: SmartAccountOptions,
+  batchSize: number,
+): VanitySearch {
+  const search =
+    options.template === 'kernel'
+      ? createHashedSaltSearch(matcher, options, batchSize)
+      : createCreate2Search(
+          matcher,
+          {
+            deployer: options.factory,
+            initCodeHash: keccak256(getSmartAccountInitCode(options)),
+          },
+          batchSize,
+        )
+
+  return {
+    next: () => {
+      const batch = search.next()
+      batch.results.forEach(result => {
+        const salt = result.salt as Hex
+        if (getSmartAccountAddress(options, salt) !== result.address) {
+          throw new InternalError('Account search derived an address that does not match its salt.')
+        }
+        const calldata = encodeSmartAccountDeployment(options, salt)
+        if (calldata != null) result.calldata = calldata
+      })
+      return batch
+    },
+  }
+}
@@ -0,0 +1,60 @@
+import { secp256k1 } from '@noble/curves/secp256k1'
+import { bytesToHex } from 'viem'
+import { generatePrivateKey, privateKeyToAddress } from 'viem/accounts'
+import { defaultVanityConfig } from './defaults'
+import { createAddressMatcher } from './match'
+import {
+  combineSplitKey,
+  createSplitKeySearch,
+  getPublicKey,
+  getSplitKeyAddress,
+  isPublicKey,
+} from './split-key'
+
+describe('createSplitKeySearch', () => {
+  test('combining the secret with each partial key controls the reported address', () => {
+    const secret = generatePrivateKey()
+    const { attempts, results } = createSplitKeySearch(
+      createAddressMatcher(defaultVanityConfig),
+      { publicKey: getPublicKey(secret) },
+      8,
+    ).next()
+    expect(attempts).toBe(8)
+    expect(results).toHaveLength(8)
+    results.forEach(result => {
+      expect(result.privateKey).toBeUndefined()
+      expect(privateKeyToAddress(combineSplitKey(secret, result.partialKey as `0x${string}`))).toBe(
+        result.address,
+      )
+    })
+  })
+
+  test('partial keys alone do not control the address', () => {
+    const secret = generatePrivateKey()
+    const [result] = createSplitKeySearch(
+      createAddressMatcher(defaultVanityConfig),
+      { publicKey: getPublicKey(secret) },
+      1,
+    ).next().results
+    expect(privateKeyToAddress(result.partialKey as `0x${string}`)).not.toBe(result.address)
+  })
+})
+
+describe('split key helpers', () => {
+  test('accepts compressed and uncompressed public keys', () => {
+    const secret = generatePrivateKey()
+    const publicKey = getPublicKey(secret)
+    const compressed = bytesToHex(secp256k1.getPublicKey(secret.slice(2), true))
+    expect(isPublicKey(publicKey)).toBe(true)
+    expect(isPublicKey(compressed)).toBe(true)
+    expect(isPublicKey('0x1234')).toBe(false)
+    expect(getSplitKeyAddress(compressed, '0x01')).toBe(getSplitKeyAddress(publicKey, '0x01'))
+  })
+
+  test('combines keys modulo the group order', () => {
+    const n = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n
+    expect(combineSplitKey(`0x${(n - 1n).toString(16)}`, '0x02')).toBe(
+      '0x0000000000000000000000000000000000000000000000000000000000000001',
+    )
+  })
+})
@@ -0,0 +1,93 @@
+import type { AddressMatcher } from './match'
+import type { SplitKeyOptions, VanityResult, VanitySearch } from './types'
+import type { Hex } from 'viem'
+import { secp256k1 } from '@noble/curves/secp256k1'
+import { bytesToHex, numberToHex } from 'viem'
+import { publicKeyToAddress } from 'viem/accounts'
+import { InternalError } from '../errors/common'
+import { InvalidPublicKeyError } from '../errors/vanity'
+import { createKeyWalker, publicKeyToLowercaseAddress } from './walker'
+
+const { Point } = secp256k1
+const curveOrder = Point.CURVE().n
+
+/** Parses a compressed (33 bytes) or uncompressed (65 bytes) secp256k1 public key. */
+export function parsePublicKey(publicKey: string) {
+  const hex = publicKey.trim().replace(/^0x/i, '')
+  try {
+    return Point.fromHex(hex)
+  } catch (error) {
+    throw new InvalidPublicKeyError('Must be a compressed or uncompressed secp256k1 public key.', {
+      cause: error instanceof Error ? error : undefined,
+    })
+  }
+}
+
+export function isPublicKey(publicKey: string) {
+  try {
+    parsePublicKey(publicKey)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** 32-byte hex key within the curve order, i.e. one that `getPublicKey` accepts. */
+export function isPrivateKey(privateKey: string) {
+  return (
+    /^0x[0-9a-fA-F]{64}$/.test(privateKey) && secp256k1.utils.isValidSecretKey(privateKey.slice(2))
+  )
+}
+
+/** Uncompressed public key of a private key, the value a requester shares with the searcher. */
+export function getPublicKey(privateKey: Hex): Hex {
+  return bytesToHex(secp256k1.getPublicKey(privateKey.slice(2), false))
+}
+
+/** Address controlled by (secret + partialKey) mod n, computed from public data only. */
+export function getSplitKeyAddress(publicKey: string, partialKey: Hex) {
+  const point = Point.BASE.multiply(BigInt(partialKey)).add(parsePublicKey(publicKey))
+  return publicKeyToAddress(bytesToHex(point.toBytes(false)))
+}
+
+/** Final private key of a split-key result: the requester's secret plus the partial key, mod n. */
+export function combineSplitKey(secret: Hex, partialKey: Hex): Hex {
+  const key = (BigInt(secret) + BigInt(partialKey)) % curveOrder
+  if (key === 0n) {
+    throw new InternalError('Combined private key is zero.')
+  }
+  return numberToHex(key, { size: 32 })
+}
+
+/**
+ * Searches partial keys k for someone else's public key P: P + k·G is the public key of their
+ * secret plus k, so a match is only spendable by whoever holds the secret behind P.
+ */
+export function createSplitKeySearch(
+  matcher: AddressMatcher,
+  { publicKey }: SplitKeyOptions,
+  batchSize: number,
+): VanitySearch {
+  const walker = createKeyWalker(batchSize, parsePublicKey(publicKey))
+
+  return {
+    next: () => {
+      const results: VanityResult[] = []
+
+      walker.step((key, point) => {
+        const address = matcher(publicKeyToLowercaseAddress(point))
+        if (address == null) return
+
+        const partialKey = numberToHex(key, { size: 32 })
+        if (getSplitKeyAddress(publicKey, partialKey) !== address) {
+          throw new InternalError(
+            'Split-key search derived an address that does not match its key.',
+          )
+        }
+        results.push({ address, partialKey, createdAt: Date.now() })
+      })
+
+      return { attempts: batchSize, results }
+    },
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  defaultStructureRules,
+  getRunProbability,
+  getStructureProbability,
+  matchStructure,
+} from './structure'
+
+const zeros = '0'.repeat(40)
+
+describe('matchStructure', () => {
+  test('repeated runs', () => {
+    const rules = { ...defaultStructureRules, run: 6 }
+    expect(matchStructure('12' + '7'.repeat(6) + '1a'.repeat(16), rules)).toBe(true)
+    expect(matchStructure('1a'.repeat(20), rules)).toBe(false)
+  })
+
+  test('palindromes at either end', () => {
+    const rules = { ...defaultStructureRules, palindrome: 4 }
+    expect(matchStructure('abba' + '1234'.repeat(9), rules)).toBe(true)
+    expect(matchStructure('1234'.repeat(9) + 'c00c', rules)).toBe(true)
+    expect(matchStructure('1234'.repeat(10), rules)).toBe(false)
+  })
+
+  test('mirrored prefix and suffix', () => {
+    const rules = { ...defaultStructureRules, mirror: 4 }
+    expect(matchStructure('abcd' + '0'.repeat(32) + 'abcd', rules)).toBe(true)
+    expect(matchStructure('abcd' + '0'.repeat(32) + 'dcba', rules)).toBe(false)
+  })
+
+  test('character sets', () => {
+    expect(matchStructure(zeros, { ...defaultStructureRules, charset: 'digits' })).toBe(true)
+    expect(
+      matchStructure('a' + zeros.slice(1), { ...defaultStructureRules, charset: 'digits' }),
+    ).toBe(false)
+    expect(
+      matchStructure('abcdef'.repeat(6) + 'abcd', { ...defaultStructureRules, charset: 'letters' }),
+    ).toBe(true)
+    expect(matchStructure(zeros, defaultStructureRules)).toBe(true)
+  })
+})
+
+describe('getRunProbability', () => {
+  test('works', () => {
+    expect(getRunProbability(1)).toBe(1)
+    expect(getRunProbability(2)).toBeCloseTo(1 - Math.pow(15 / 16, 39))
+    expect(getRunProbability(40)).toBeCloseTo(Math.pow(16, -39))
+    expect(getRunProbability(41)).toBe(0)
+  })
+})
+
+describe('getStructureProbability', () => {
+  test('works', () => {
+    expect(getStructureProbability(defaultStructureRules)).toBe(1)
+    expect(getStructureProbability({ ...defaultStructureRules, mirror: 4 })).toBe(1 / 65536)
+    const p = 1 / 256
+    expect(getStructureProbability({ ...defaultStructureRules, palindrome: 5 })).toBeCloseTo(
+      2 * p - p * p,
+    )
+  })
+})
@@ -0,0 +1,114 @@
+import type { StructureRules } from './types'
+
+const addressLength = 40
+
+/** Longest palindrome or mirror rule; up to half the address a prefix and a suffix never overlap. */
+export const maxAnchoredLength = addressLength / 2
+
+export const defaultStructureRules: StructureRules = {
+  run: 0,
+  palindrome: 0,
+  mirror: 0,
+  charset: 'any',
+}
+
+export const charsetLabels: Record<StructureRules['charset'], string> = {
+  any: 'Any',
+  digits: 'Digits only',
+  letters: 'Letters only',
+}
+
+export function hasStructureRules(rules: StructureRules): boolean {
+  return rules.run > 0 || rules.palindrome > 0 || rules.mirror > 0 || rules.charset !== 'any'
+}
+
+export function describeStructure(rules: StructureRules): string {
+  return [
+    rules.run > 0 ? `run of ${rules.run}` : null,
+    rules.palindrome > 0 ? `palindrome of ${rules.palindrome}` : null,
+    rules.mirror > 0 ? `mirror of ${rules.mirror}` : null,
+    rules.charset !== 'any' ? charsetLabels[rules.charset].toLowerCase() : null,
+  ]
+    .filter(part => part != null)
+    .join(', ')
+}
+
+const isPalindrome = (value: string) => value === value.split('').reverse().join('')
+
+function getLongestRun(value: string): number {
+  let longest = 0
+  let run = 0
+  for (let i = 0; i < value.length; i++) {
+    run = i > 0 && value[i] === value[i - 1] ? run + 1 : 1
+    longest = Math.max(longest, run)
+  }
+  return longest
+}
+
+/**
+ * Whether a lowercase address without `0x` has the requested shape. Structure ignores checksum
+ * casing: `aA` is a run of two.
+ */
+export function matchStructure(cleanAddress: string, rules: StructureRules): boolean {
+  if (rules.charset === 'digits' && !/^[0-9]*$/.test(cleanAddress)) return false
+  if (rules.charset === 'letters' && !/^[a-f]*$/.test(cleanAddress)) return false
+  if (
+    rules.mirror > 0 &&
+    cleanAddress.slice(0, rules.mirror) !== cleanAddress.slice(-rules.mirror)
+  ) {
+    return false
+  }
+  if (
+    rules.palindrome > 0 &&
+    !isPalindrome(cleanAddress.slice(0, rules.palindrome)) &&
+    !isPalindrome(cleanAddress.slice(-rules.palindrome))
+  ) {
+    return false
+  }
+  if (rules.run > 1 && getLongestRun(cleanAddress) < rules.run) return false
+  return true
+}
+
+/** Probability that 40 random hex characters contain a run of at least `length` equal ones. */
+export function getRunProbability(length: number): number {
+  if (length <= 1) return 1
+  if (length > addressLength) return 0
+
+  // states[k]: probability that the current run has length k + 1 and no full run happened yet
+  let states = new Array<number>(length - 1).fill(0)
+  states[0] = 1
+  let found = 0
+  for (let position = 1; position < addressLength; position++) {
+    const next = new Array<number>(length - 1).fill(0)
+    states.forEach((probability, k) => {
+      next[0] += (probability * 15) / 16
+      if (k + 1 === length - 1) {
+        found += probability / 16
+      } else {
+        next[k + 1] += probability / 16
+      }
+    })
+    states = next
+  }
+  return found
+}
+
+/**
+ * Probability of every structure rule together. Rules are treated as independent, which is exact
+ * for each rule on its own and an approximation when several are combined.
+ */
+export function getStructureProbability(rules: StructureRules): number {
+  const pPalindrome = Math.pow(16, -Math.floor(rules.palindrome / 2))
+  const charset = {
+    any: 1,
+    digits: Math.pow(10 / 16, addressLength),
+    letters: Math.pow(6 / 16, addressLength),
+  }
+
+  return (
+    charset[rules.charset] *
+    Math.pow(16, -rules.mirror) *
+    (rules.palindrome > 0 ? 2 * pPalindrome - pPalindrome * pPalindrome : 1) *
+    getRunProbability(rules.run)
+  )
+}
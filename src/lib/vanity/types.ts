@@ -6,21 +6,206 @@ export interface VanityConfig {
   includes: string
   caseSensitive: boolean
   includesMode: 'all' | 'any'
+  /** Positional mask / regex-style pattern, see `lib/vanity/pattern.ts`; ANDed with the rules above */
+  pattern: string
+  /** Where any bundled hex word must appear, see `lib/vanity/hex-words.ts`; ANDed as well */
+  dictionary: 'off' | 'start' | 'end' | 'either'
+  /** Shape of the address rather than its characters, see `lib/vanity/structure.ts`; ANDed as well */
+  structure: StructureRules
+}
+
+/** Each rule is off at 0 (or `any`). */
+export interface StructureRules {
+  /** Minimum run of one repeated character anywhere, e.g. `0000000` */
+  run: number
+  /** Length of a palindromic prefix or suffix, e.g. `0xabba…` */
+  palindrome: number
+  /** Length of a prefix that repeats as the suffix, e.g. `0xabcd…abcd` */
+  mirror: number
+  charset: 'any' | 'digits' | 'letters'
+}
+
+export type VanityMode =
+  | 'privateKey'
+  | 'create'
+  | 'create2'
+  | 'mnemonic'
+  | 'splitKey'
+  | 'safe'
+  | 'smartAccount'
+
+export interface CreateOptions {
+  /** Nonce of the deployer EOA at deployment time, 0 for its first transaction */
+  nonce: number
+}
+
+export interface Create2Options {
+  /** Factory (or deployer) contract executing CREATE2 */
+  deployer: string
+  /** keccak256 of the contract init code */
+  initCodeHash: string
+}
+
+export interface SafeOptions {
+  /** Owner addresses separated by commas, spaces or new lines */
+  owners: string
+  /** Owner signatures required, between 1 and the number of owners */
+  threshold: number
+  /** Safe (or SafeL2) implementation the proxy delegates to */
+  singleton: string
+  /** SafeProxyFactory deploying the proxy with CREATE2 */
+  factory: string
+  /** Passed to `setup`, the zero address for none */
+  fallbackHandler: string
+  /** `proxyCreationCode()` of the factory, hex bytecode */
+  proxyCreationCode: string
+}
+
+/**
+ * How an ERC-4337 factory derives the account address: `simpleAccount` salts CREATE2 with the salt
+ * of `createAccount(owner, salt)`, `kernel` with keccak256(initData ++ salt) like Kernel's
+ * `createAccount(data, salt)`, `custom` with the salt and the init code as given.
+ */
+export type AccountFactoryTemplate = 'simpleAccount' | 'kernel' | 'custom'
+
+export interface SmartAccountOptions {
+  template: AccountFactoryTemplate
+  /** Factory contract deploying the accounts with CREATE2 */
+  factory: string
+  /** ERC1967Proxy creation code for `simpleAccount`, the complete init code otherwise */
+  proxyInitCode: string
+  /** `simpleAccount`: the factory's `accountImplementation()` */
+  implementation: string
+  /** `simpleAccount`: owner passed to `initialize` */
+  owner: string
+  /** `kernel`: the account's initialization calldata, as built by its SDK */
+  initData: string
+}
+
+export type VanityGoal = 'match' | 'score' | 'lookAlike'
+
+export type ScoreMetric = 'leadingZeroBytes' | 'zeroBytes'
+
+export interface ScoreOptions {
+  metric: ScoreMetric
+  /** Stop once any candidate reaches this score, 0 to run until stopped */
+  target: number
+  /** Number of best candidates kept on the leaderboard */
+  top: number
+}
+
+export interface LookAlikeOptions {
+  /** Address the results should resemble */
+  target: string
+  /** `affixes` keeps the first `prefix` and last `suffix` characters, `hamming` at most `distance` changes */
+  rule: 'affixes' | 'hamming'
+  prefix: number
+  suffix: number
+  distance: number
+}
+
+export interface MnemonicOptions {
+  /** Derivation path of the first account, e.g. `m/44'/60'/0'/0/0` */
+  path: string
+  /** Number of consecutive indexes checked per mnemonic, counting from the last path segment */
+  accounts: number
+  wordCount: 12 | 24
+}
+
+export interface SplitKeyOptions {
+  /** Requester's secp256k1 public key, compressed or uncompressed hex */
+  publicKey: string
+}
+
+/** Mode specific inputs; only the ones of `mode` are used. */
+export interface VanityOptions {
+  /**
+   * `match` stops after `count` matches, `score` ranks matches by `score.metric`, `lookAlike` also
+   * requires matches to resemble `lookAlike.target`
+   */
+  goal: VanityGoal
+  score: ScoreOptions
+  lookAlike: LookAlikeOptions
+  mode: VanityMode
+  create: CreateOptions
+  create2: Create2Options
+  mnemonic: MnemonicOptions
+  splitKey: SplitKeyOptions
+  safe: SafeOptions
+  smartAccount: SmartAccountOptions
 }
 
 export interface VanityResult {
   address: string
-  privateKey: string
+  /** Set in `privateKey` and `create` modes */
+  privateKey?: string
+  /** Set in `create` mode, the EOA whose deployment lands on `address` */
+  deployer?: string
+  /** Set in `create` mode */
+  nonce?: number
+  /** Set in `create2` and `smartAccount` modes */
+  salt?: string
+  /** Set in `mnemonic` mode */
+  mnemonic?: string
+  /** Set in `mnemonic` mode, the derivation path of `address` */
+  path?: string
+  /** Set in `splitKey` mode; only spendable once added to the requester's secret */
+  partialKey?: string
+  /** Set in `safe` mode, the uint256 `saltNonce` in decimal */
+  saltNonce?: string
+  /**
+   * Set in `safe` mode and for `smartAccount` templates with a known factory: the call to send to
+   * the factory to deploy `address`
+   */
+  calldata?: string
+  /** Set when the goal is `score` */
+  score?: number
+  /** Set when the goal is `lookAlike`, characters that differ from the target */
+  distance?: number
+  /** Index of the matched pattern in a batch search */
+  patternIndex?: number
   createdAt: number
 }
 
-export interface WorkerMessage {
-  type: 'start' | 'stop'
-  config?: VanityConfig
+export interface VanitySearchBatch {
+  attempts: number
+  results: VanityResult[]
+}
+
+export interface VanitySearch {
+  next: () => VanitySearchBatch
 }
 
-export interface WorkerResponse {
-  type: 'progress' | 'found' | 'finished'
-  attempts?: number
-  result?: VanityResult
+/** Search over several patterns at once, see `lib/vanity/batch.ts`. */
+export interface PatternSearch extends VanitySearch {
+  /** Stops matching a pattern whose quota is met */
+  retire: (patternIndex: number) => void
 }
+
+/** Bumped on any breaking change; both sides drop messages of another version. */
+export const workerProtocolVersion = 3
+
+interface WorkerMessageBase {
+  version: typeof workerProtocolVersion
+  /** Messages for another job than the worker's current one are ignored */
+  jobId: number
+}
+
+export type WorkerMessage =
+  | (WorkerMessageBase & { type: 'start'; patterns: VanityConfig[]; options: VanityOptions })
+  | (WorkerMessageBase & { type: 'pause' | 'resume' | 'stop' })
+  | (WorkerMessageBase & { type: 'retire'; patternIndex: number })
+
+interface WorkerResponseBase {
+  version: typeof workerProtocolVersion
+  jobId: number
+}
+
+export type WorkerResponse =
+  | (WorkerResponseBase & { type: 'progress'; attempts: number })
+  /** `best` replaces `found` when scoring: each one is the worker's new best candidate */
+  | (WorkerResponseBase & { type: 'found' | 'best'; result: VanityResult })
+  | (WorkerResponseBase & { type: 'error'; error: { name: string; message: string } })
+
+/** A message as a sender builds it, before the protocol version is stamped on. */
+export type Unversioned<T> = T extends unknown ? Omit<T, 'version'> : never
@@ -0,0 +1,118 @@
+import { InvalidMnemonicError, InvalidPrivateKeyError } from '../errors/vanity'
+import { defaultVanityConfig } from './defaults'
+import { defaultDerivationPath } from './mnemonic'
+import {
+  checkPattern,
+  deriveAddressFromMnemonic,
+  deriveAddressFromPrivateKey,
+  getVerifyTarget,
+} from './verify'
+
+// Hardhat's default account #0
+const mnemonic = 'test test test test test test test test test test test junk'
+const privateKey = 'ac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+const address = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'
+
+describe('deriveAddressFromPrivateKey', () => {
+  test('accepts keys with or without 0x', () => {
+    expect(deriveAddressFromPrivateKey(privateKey)).toBe(address)
+    expect(deriveAddressFromPrivateKey(` 0x${privateKey}\n`)).toBe(address)
+  })
+
+  test('rejects malformed and out of range keys', () => {
+    expect(() => deriveAddressFromPrivateKey('0x1234')).toThrow(InvalidPrivateKeyError)
+    expect(() => deriveAddressFromPrivateKey('0'.repeat(64))).toThrow(InvalidPrivateKeyError)
+  })
+})
+
+describe('deriveAddressFromMnemonic', () => {
+  test('derives the account at the path', () => {
+    expect(deriveAddressFromMnemonic(`  ${mnemonic.toUpperCase()} `, defaultDerivationPath)).toBe(
+      address,
+    )
+    expect(deriveAddressFromMnemonic(mnemonic, "m/44'/60'/0'/0/1")).toBe(
+      '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    )
+  })
+
+  test('rejects invalid phrases and paths', () => {
+    expect(() => deriveAddressFromMnemonic('test test test', defaultDerivationPath)).toThrow(
+      InvalidMnemonicError,
+    )
+    expect(() => deriveAddressFromMnemonic(mnemonic, 'm/x')).toThrow(InvalidMnemonicError)
+  })
+})
+
+describe('getVerifyTarget', () => {
+  test('checks a CREATE result against its deployer', () => {
+    const result = {
+      address: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+      privateKey,
+      deployer: address,
+      nonce: 0,
+      createdAt: 0,
+    }
+    expect(getVerifyTarget(result)).toEqual({ address })
+    expect(deriveAddressFromPrivateKey(privateKey)).toBe(getVerifyTarget(result).address)
+  })
+
+  test('carries the derivation path of a mnemonic result', () => {
+    const result = {
+      address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      mnemonic,
+      path: "m/44'/60'/0'/0/1",
+      createdAt: 0,
+    }
+    const target = getVerifyTarget(result)
+    expect(target).toEqual({ address: result.address, path: result.path })
+    expect(deriveAddressFromMnemonic(mnemonic, target.path!)).toBe(target.address)
+  })
+})
+
+describe('checkPattern', () => {
+  test('checks the pattern and each of its rules on its own', () => {
+    expect(
+      checkPattern(address, {
+        ...defaultVanityConfig,
+        startsWith: 'f39f',
+        endsWith: 'dead',
+        includes: '8827',
+      }),
+    ).toEqual({
+      matched: false,
+      rules: [
+        { rule: '0xf39f…', passed: true },
+        { rule: '…dead', passed: false },
+        { rule: 'has 8827', passed: true },
+      ],
+    })
+  })
+
+  test('follows the prefix or suffix mode for the whole pattern', () => {
+    expect(
+      checkPattern(address, {
+        ...defaultVanityConfig,
+        startsWith: 'f39f',
+        endsWith: 'dead',
+        prefixSuffixMode: 'or',
+      }).matched,
+    ).toBe(true)
+  })
+
+  test('keeps case sensitivity', () => {
+    expect(
+      checkPattern(address, { ...defaultVanityConfig, startsWith: 'F39F', caseSensitive: true }),
+    ).toEqual({ matched: false, rules: [{ rule: '0xF39F…', passed: false }] })
+  })
+
+  test('fails a pattern that does not compile', () => {
+    expect(checkPattern(address, { ...defaultVanityConfig, pattern: '[' })).toEqual({
+      matched: false,
+      rules: [{ rule: '[', passed: false }],
+    })
+  })
+
+  test('has nothing to check without rules', () => {
+    expect(checkPattern(address, defaultVanityConfig)).toEqual({ matched: true, rules: [] })
+  })
+})
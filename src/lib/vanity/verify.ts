@@ -0,0 +1,106 @@
+import type { VanityConfig, VanityResult } from './types'
+import type { Address, Hex } from 'viem'
+import { validateMnemonic } from '@scure/bip39'
+import { english, mnemonicToAccount, privateKeyToAddress } from 'viem/accounts'
+import { InvalidMnemonicError, InvalidPatternError, InvalidPrivateKeyError } from '../errors/vanity'
+import { describePattern } from './batch'
+import { defaultVanityConfig } from './defaults'
+import { matchAddress } from './match'
+import { derivationPathRegex } from './mnemonic'
+import { hasStructureRules } from './structure'
+
+const privateKeyRegex = /^(0x)?[0-9a-fA-F]{64}$/
+
+export function deriveAddressFromPrivateKey(privateKey: string): Address {
+  const trimmed = privateKey.trim()
+  if (!privateKeyRegex.test(trimmed)) {
+    throw new InvalidPrivateKeyError('Private key must be 64 hex characters.')
+  }
+  try {
+    return privateKeyToAddress(`0x${trimmed.replace(/^0x/, '')}` as Hex)
+  } catch (error) {
+    // Zero and keys past the curve order are 64 hex characters too
+    throw new InvalidPrivateKeyError('Private key is out of range for secp256k1.', {
+      cause: error instanceof Error ? error : undefined,
+    })
+  }
+}
+
+export function deriveAddressFromMnemonic(mnemonic: string, path: string): Address {
+  const words = mnemonic.trim().toLowerCase().split(/\s+/).join(' ')
+  if (!validateMnemonic(words, english)) {
+    throw new InvalidMnemonicError('Mnemonic is not a valid BIP-39 English phrase.')
+  }
+  if (!derivationPathRegex.test(path)) {
+    throw new InvalidMnemonicError(`Invalid derivation path "${path}".`)
+  }
+  // viem only types BIP-44 Ethereum paths but derives any path
+  return mnemonicToAccount(words, { path: path as `m/44'/60'/${string}` }).address
+}
+
+export interface VerifyTarget {
+  /** Address the result's secret derives */
+  address: string
+  /** Derivation path of a mnemonic result */
+  path?: string
+}
+
+/**
+ * What to check a result's secret against. A CREATE result holds the deployer's key, not the
+ * contract's, and a mnemonic result may sit at any of the accounts checked per phrase.
+ */
+export function getVerifyTarget(result: VanityResult): VerifyTarget {
+  return {
+    address: result.deployer ?? result.address,
+    ...(result.path != null ? { path: result.path } : {}),
+  }
+}
+
+export interface RuleCheck {
+  /** The rule alone, described like a pattern, e.g. `0xdead…` */
+  rule: string
+  passed: boolean
+}
+
+export interface PatternCheck {
+  /** Whether the whole pattern accepts the address, as the search would */
+  matched: boolean
+  rules: RuleCheck[]
+}
+
+// A pattern that does not compile matches nothing
+function safeMatchAddress(address: string, config: VanityConfig) {
+  try {
+    return matchAddress(address, config)
+  } catch (error) {
+    if (!(error instanceof InvalidPatternError)) throw error
+    return false
+  }
+}
+
+/**
+ * Checks an address against `config`, and each rule that it sets on its own. Casing and the
+ * include mode carry over, so a failed rule points at what keeps the pattern from matching.
+ */
+export function checkPattern(address: string, config: VanityConfig): PatternCheck {
+  const base: VanityConfig = {
+    ...defaultVanityConfig,
+    caseSensitive: config.caseSensitive,
+    includesMode: config.includesMode,
+  }
+  const rules: VanityConfig[] = [
+    ...(config.startsWith !== '' ? [{ ...base, startsWith: config.startsWith }] : []),
+    ...(config.endsWith !== '' ? [{ ...base, endsWith: config.endsWith }] : []),
+    ...(config.includes !== '' ? [{ ...base, includes: config.includes }] : []),
+    ...(config.pattern !== '' ? [{ ...base, pattern: config.pattern }] : []),
+    ...(config.dictionary !== 'off' ? [{ ...base, dictionary: config.dictionary }] : []),
+    ...(hasStructureRules(config.structure) ? [{ ...base, structure: config.structure }] : []),
+  ]
+  return {
+    matched: safeMatchAddress(address, config),
+    rules: rules.map(rule => ({
+      rule: describePattern(rule),
+      passed: safeMatchAddress(address, rule),
+    })),
+  }
+}
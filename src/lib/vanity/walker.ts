@@ -0,0 +1,114 @@
+import { secp256k1 } from '@noble/curves/secp256k1'
+import { numberToBytesBE } from '@noble/curves/utils'
+import { keccak_256 } from '@noble/hashes/sha3'
+import { bytesToHex } from 'viem'
+import { generatePrivateKey } from 'viem/accounts'
+
+const { Point } = secp256k1
+const Fp = Point.Fp
+const curveOrder = Point.CURVE().n
+
+export const defaultBatchSize = 1024
+
+// Affine multiples 1·G … n·G, shared by every walker with the same batch size
+const multiplesCache = new Map<number, { x: bigint[]; y: bigint[] }>()
+
+function getMultiplesOfG(batchSize: number) {
+  let multiples = multiplesCache.get(batchSize)
+  if (multiples == null) {
+    const x: bigint[] = []
+    const y: bigint[] = []
+    let point = Point.BASE
+    for (let i = 0; i < batchSize; i++) {
+      const affine = point.toAffine()
+      x.push(affine.x)
+      y.push(affine.y)
+      point = point.add(Point.BASE)
+    }
+    multiples = { x, y }
+    multiplesCache.set(batchSize, multiples)
+  }
+  return multiples
+}
+
+export type KeyVisitor = (privateKey: bigint, publicKey: Uint8Array) => void
+
+export type KeyWalker = {
+  /** Visits the next `batchSize` consecutive keys k+1 … k+n. `publicKey` is reused between calls. */
+  step: (visit: KeyVisitor) => void
+}
+
+export type CurvePoint = typeof Point.BASE
+
+/**
+ * Walks consecutive private keys from one random start. Instead of a scalar multiplication per key,
+ * each batch adds the precomputed multiples of G to the current point in affine coordinates, sharing
+ * a single field inversion across the batch (Montgomery's trick).
+ *
+ * With an `offset` point P the walker visits P + k·G instead of k·G, so `privateKey` is only the
+ * partial key k of a split-key search.
+ */
+export function createKeyWalker(batchSize = defaultBatchSize, offset?: CurvePoint): KeyWalker {
+  const multiples = getMultiplesOfG(batchSize)
+  const deltas = new Array<bigint>(batchSize)
+  const publicKey = new Uint8Array(64)
+
+  let scalar = 0n
+  let x = 0n
+  let y = 0n
+
+  const reseed = () => {
+    scalar = BigInt(generatePrivateKey())
+    const point = Point.BASE.multiply(scalar)
+    const affine = (offset == null ? point : point.add(offset)).toAffine()
+    x = affine.x
+    y = affine.y
+  }
+  reseed()
+
+  const step = (visit: KeyVisitor) => {
+    // Keep k + n inside the group order; a fresh random start is as good as any
+    if (scalar + BigInt(batchSize) >= curveOrder) {
+      reseed()
+    }
+
+    for (let i = 0; i < batchSize; i++) {
+      deltas[i] = Fp.sub(multiples.x[i], x)
+      // Only when the current point is ±(i+1)·G, which a random start never hits in practice
+      if (deltas[i] === 0n) {
+        reseed()
+        step(visit)
+        return
+      }
+    }
+    const inverses = Fp.invertBatch(deltas)
+
+    let nextX = x
+    let nextY = y
+    for (let i = 0; i < batchSize; i++) {
+      const lambda = Fp.mul(Fp.sub(multiples.y[i], y), inverses[i])
+      nextX = Fp.sub(Fp.sub(Fp.sqr(lambda), x), multiples.x[i])
+      nextY = Fp.sub(Fp.mul(lambda, Fp.sub(x, nextX)), y)
+
+      publicKey.set(numberToBytesBE(nextX, 32), 0)
+      publicKey.set(numberToBytesBE(nextY, 32), 32)
+      visit(scalar + BigInt(i + 1), publicKey)
+    }
+
+    scalar += BigInt(batchSize)
+    x = nextX
+    y = nextY
+  }
+
+  return { step }
+}
+
+/** Raw 20 address bytes of a 64-byte public key (`x || y`). */
+export function publicKeyToAddressBytes(publicKey: Uint8Array): Uint8Array {
+  return keccak_256(publicKey).subarray(12)
+}
+
+/** Lowercase address of a raw 64-byte public key (`x || y`). */
+export function publicKeyToLowercaseAddress(publicKey: Uint8Array): string {
+  return bytesToHex(publicKeyToAddressBytes(publicKey))
+}
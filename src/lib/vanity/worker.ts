@@ -0,0 +1,105 @@
+import type { PatternSearch, Unversioned, WorkerMessage, WorkerResponse } from './types'
+import { createVanitySearch } from './search'
+import { workerProtocolVersion } from './types'
+
+type Job = {
+  id: number
+  search: PatternSearch
+  resultType: 'found' | 'best'
+  paused: boolean
+}
+
+/**
+ * Search loop of a worker, shared by the browser's web workers and the CLI's worker threads. Feed it
+ * every incoming message; responses go out through `postMessage`.
+ */
+export function createVanityWorker(postMessage: (response: WorkerResponse) => void) {
+  let job: Job | null = null
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const post = (response: Unversioned<WorkerResponse>) => {
+    postMessage({ ...response, version: workerProtocolVersion })
+  }
+
+  const reportError = (jobId: number, error: unknown) => {
+    job = null
+    cancel()
+    post({
+      type: 'error',
+      jobId,
+      error:
+        error instanceof Error
+          ? { name: error.name, message: error.message }
+          : { name: 'Error', message: String(error) },
+    })
+  }
+
+  // At most one pending tick, however pause and resume interleave
+  function schedule() {
+    timer ??= setTimeout(workLoop, 0)
+  }
+
+  function cancel() {
+    if (timer != null) clearTimeout(timer)
+    timer = null
+  }
+
+  function workLoop() {
+    timer = null
+    if (job == null || job.paused) return
+
+    const { id, search, resultType } = job
+    let batch
+    try {
+      batch = search.next()
+    } catch (error) {
+      reportError(id, error)
+      return
+    }
+
+    // Progress goes first: a pool that stops on this batch's results has already counted its attempts
+    post({ type: 'progress', jobId: id, attempts: batch.attempts })
+    batch.results.forEach(result => {
+      post({ type: resultType, jobId: id, result })
+    })
+
+    schedule()
+  }
+
+  return (message: WorkerMessage) => {
+    if (message.version !== workerProtocolVersion) return
+
+    if (message.type === 'start') {
+      // A new job replaces whatever ran before
+      cancel()
+      try {
+        job = {
+          id: message.jobId,
+          search: createVanitySearch(message.patterns, message.options),
+          resultType: message.options.goal === 'score' ? 'best' : 'found',
+          paused: false,
+        }
+      } catch (error) {
+        reportError(message.jobId, error)
+        return
+      }
+      schedule()
+      return
+    }
+
+    if (job == null || job.id !== message.jobId) return
+
+    if (message.type === 'pause') {
+      job.paused = true
+      cancel()
+    } else if (message.type === 'resume') {
+      job.paused = false
+      schedule()
+    } else if (message.type === 'retire') {
+      job.search.retire(message.patternIndex)
+    } else if (message.type === 'stop') {
+      job = null
+      cancel()
+    }
+  }
+}
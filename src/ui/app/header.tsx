@@ -15,9 +15,17 @@ export const Header: FC<ComponentProps<'div'>> = ({ className, ...props }) => {
       {...props}
     >
       <div className="container m-auto flex justify-between">
-        <Link href={'/'} className="text-2xl hover:underline">
-          {appName}
-        </Link>
+        <div className="flex items-center space-x-6">
+          <Link href={'/'} className="text-2xl hover:underline">
+            {appName}
+          </Link>
+          <Link href={'/split-key'} className="text-sm hover:underline">
+            Split-Key Combine
+          </Link>
+          <Link href={'/verify'} className="text-sm hover:underline">
+            Verify
+          </Link>
+        </div>
 
         <div className="flex space-x-4">
           <SwitchChain />
@@ -0,0 +1,24 @@
+'use client'
+
+import type { ComponentProps, FC } from 'react'
+import encodeQR from 'qr'
+import { useMemo } from 'react'
+
+type Props = ComponentProps<'svg'> & {
+  value: string
+}
+
+/** QR code drawn as inline SVG, encoded in the browser so the value never leaves the page. */
+export const QrCode: FC<Props> = ({ value, ...props }) => {
+  const cells = useMemo(() => encodeQR(value, 'raw', { ecc: 'medium', border: 2 }), [value])
+  const path = cells
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x} ${y}h1v1h-1z` : '')))
+    .join('')
+
+  return (
+    <svg viewBox={`0 0 ${cells.length} ${cells.length}`} shapeRendering="crispEdges" {...props}>
+      <rect width="100%" height="100%" fill="white" />
+      <path d={path} fill="black" />
+    </svg>
+  )
+}
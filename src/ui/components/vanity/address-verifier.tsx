@@ -0,0 +1,248 @@
+'use client'
+
+import type { Address } from 'viem'
+import { useAtom, useAtomValue, useSetAtom } from 'jotai'
+import { useEffect, useState } from 'react'
+import { getAddress, isAddress, isAddressEqual } from 'viem'
+
+import {
+  restoreLastConfigAtom,
+  vanityPatternsAtom,
+  verifyAddressAtom,
+  verifyPathAtom,
+} from '@/lib/states/vanity'
+import { describePattern } from '@/lib/vanity/batch'
+import type { KeystoreV3 } from '@/lib/vanity/keystore'
+import { decryptKeystore, parseKeystore } from '@/lib/vanity/keystore'
+import {
+  checkPattern,
+  deriveAddressFromMnemonic,
+  deriveAddressFromPrivateKey,
+} from '@/lib/vanity/verify'
+import { Button } from '@/ui/shadcn/button'
+import { Input } from '@/ui/shadcn/input'
+
+type VerifySource = 'privateKey' | 'mnemonic' | 'keystore'
+
+const sourceLabels: Record<VerifySource, string> = {
+  privateKey: 'Private Key',
+  mnemonic: 'Mnemonic',
+  keystore: 'Keystore File',
+}
+
+/**
+ * Derives the address of a private key, mnemonic or keystore file locally, then checks it against
+ * the expected address and the generator's patterns. The key itself is never shown.
+ */
+export function AddressVerifier() {
+  // Links from the results table bring the address, path and patterns; otherwise the last config
+  const [expectedAddress, setExpectedAddress] = useAtom(verifyAddressAtom)
+  const [path, setPath] = useAtom(verifyPathAtom)
+  const patterns = useAtomValue(vanityPatternsAtom)
+  const restoreLastConfig = useSetAtom(restoreLastConfigAtom)
+  useEffect(() => restoreLastConfig(), [restoreLastConfig])
+
+  const [source, setSource] = useState<VerifySource>('privateKey')
+  const [privateKey, setPrivateKey] = useState('')
+  const [mnemonic, setMnemonic] = useState('')
+  const [keystore, setKeystore] = useState<KeystoreV3 | null>(null)
+  const [fileName, setFileName] = useState('')
+  const [password, setPassword] = useState('')
+  const [isVerifying, setIsVerifying] = useState(false)
+  const [address, setAddress] = useState<Address | null>(null)
+
+  const expectedError =
+    expectedAddress !== '' && !isAddress(expectedAddress, { strict: false })
+      ? 'Must be an address'
+      : null
+  const matchesExpected =
+    address != null && expectedAddress !== '' && expectedError == null
+      ? isAddressEqual(address, expectedAddress as Address)
+      : null
+  const canVerify =
+    !isVerifying &&
+    (source === 'privateKey'
+      ? privateKey !== ''
+      : source === 'mnemonic'
+        ? mnemonic !== ''
+        : keystore != null)
+
+  const handleFile = async (file: File | undefined) => {
+    setKeystore(null)
+    setAddress(null)
+    if (file == null) return
+    setFileName(file.name)
+    // Invalid files surface through the global error toast
+    setKeystore(parseKeystore(await file.text()))
+  }
+
+  const handleVerify = async () => {
+    setAddress(null)
+    if (source === 'privateKey') {
+      setAddress(deriveAddressFromPrivateKey(privateKey))
+    } else if (source === 'mnemonic') {
+      setAddress(deriveAddressFromMnemonic(mnemonic, path))
+    } else if (keystore != null) {
+      setIsVerifying(true)
+      try {
+        const decrypted = await decryptKeystore(keystore, password)
+        setAddress(decrypted.address)
+      } finally {
+        setIsVerifying(false)
+      }
+    }
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border border-gray-200 p-6 dark:border-gray-800">
+      <div className="flex space-x-2">
+        {(Object.keys(sourceLabels) as VerifySource[]).map(key => (
+          <Button
+            key={key}
+            variant={source === key ? 'default' : 'outline'}
+            size="sm"
+            disabled={isVerifying}
+            onClick={() => {
+              setSource(key)
+              setAddress(null)
+            }}
+          >
+            {sourceLabels[key]}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        {source === 'privateKey' && (
+          <div className="space-y-1 md:col-span-2">
+            <label className="text-sm font-medium">Private Key</label>
+            <Input
+              type="password"
+              value={privateKey}
+              onChange={e => {
+                setPrivateKey(e.target.value)
+                setAddress(null)
+              }}
+              placeholder="0x…"
+            />
+          </div>
+        )}
+        {source === 'mnemonic' && (
+          <>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Mnemonic</label>
+              <Input
+                type="password"
+                value={mnemonic}
+                onChange={e => {
+                  setMnemonic(e.target.value)
+                  setAddress(null)
+                }}
+                placeholder="12 or 24 words"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Derivation Path</label>
+              <Input
+                value={path}
+                onChange={e => {
+                  setPath(e.target.value.trim())
+                  setAddress(null)
+                }}
+              />
+            </div>
+          </>
+        )}
+        {source === 'keystore' && (
+          <>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Keystore File</label>
+              <Input
+                type="file"
+                accept=".json,application/json"
+                disabled={isVerifying}
+                onChange={e => handleFile(e.target.files?.[0])}
+              />
+              {keystore != null && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {fileName}: {keystore.crypto.kdf},{' '}
+                  {keystore.address != null ? getAddress(`0x${keystore.address}`) : 'no address'}
+                </p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Password</label>
+              <Input
+                type="password"
+                value={password}
+                disabled={isVerifying}
+                onChange={e => {
+                  setPassword(e.target.value)
+                  setAddress(null)
+                }}
+              />
+            </div>
+          </>
+        )}
+        <div className="space-y-1 md:col-span-2">
+          <label className="text-sm font-medium">Expected Address (Optional)</label>
+          <Input
+            value={expectedAddress}
+            onChange={e => setExpectedAddress(e.target.value.trim())}
+            placeholder="0x…"
+            className={expectedError != null ? 'border-red-500' : ''}
+          />
+          {expectedError != null && <p className="text-xs text-red-500">{expectedError}</p>}
+        </div>
+      </div>
+
+      <Button disabled={!canVerify} onClick={handleVerify}>
+        {isVerifying ? 'Decrypting…' : 'Verify'}
+      </Button>
+
+      {address != null && (
+        <div className="space-y-4 rounded-lg bg-gray-50 p-4 dark:bg-gray-900">
+          <div>
+            <div className="text-xs text-gray-500 uppercase dark:text-gray-400">Address</div>
+            <div className="font-mono">{address}</div>
+            {matchesExpected === true && (
+              <p className="text-xs text-green-600">Matches the expected address.</p>
+            )}
+            {matchesExpected === false && (
+              <p className="text-xs text-red-500">
+                Does not match the expected address: do not fund it.
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <div className="text-xs text-gray-500 uppercase dark:text-gray-400">Patterns</div>
+            {patterns.map((pattern, i) => {
+              const check = checkPattern(address, pattern)
+              return (
+                <div key={i} className="text-sm">
+                  <span className={check.matched ? 'text-green-600' : 'text-red-500'}>
+                    {check.matched ? '✓' : '✗'}
+                  </span>{' '}
+                  {patterns.length > 1 && `Pattern ${i + 1}: `}
+                  <span className="font-mono">{describePattern(pattern)}</span>
+                  {check.rules.length > 1 && (
+                    <ul className="ml-5 text-xs text-gray-600 dark:text-gray-400">
+                      {check.rules.map(rule => (
+                        <li key={rule.rule}>
+                          <span className={rule.passed ? 'text-green-600' : 'text-red-500'}>
+                            {rule.passed ? '✓' : '✗'}
+                          </span>{' '}
+                          <span className="font-mono">{rule.rule}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+'use client'
+
+import { formatDuration } from '@/lib/utils/formatters'
+import { getAttemptsForConfidence, getExpectedAttempts } from '@/lib/vanity/estimate'
+
+const confidences = [0.5, 0.9, 0.99]
+
+/**
+ * Expected time to the remaining matches, plus the times by which they are found with 50/90/99%
+ * confidence. Times need a measured speed, so they only appear once a search has run.
+ */
+export function EstimatePanel({
+  probability,
+  remaining,
+  speed,
+}: {
+  /** Per-attempt probability of one accepted address */
+  probability: number
+  remaining: number
+  speed: number
+}) {
+  const expected = getExpectedAttempts(probability, remaining)
+  const toTime = (attempts: number) => (speed > 0 ? formatDuration(attempts / speed) : '-')
+
+  return (
+    <div className="grid grid-cols-5 gap-4 rounded-lg bg-gray-50 p-4 text-center dark:bg-gray-900">
+      <div>
+        <div className="font-mono">
+          {probability > 0 ? `1 in ${Math.round(1 / probability).toLocaleString()}` : '-'}
+        </div>
+        <div className="text-xs text-gray-500 uppercase dark:text-gray-400">Per Attempt</div>
+      </div>
+      <div>
+        <div className="font-mono">{toTime(expected)}</div>
+        <div className="text-xs text-gray-500 uppercase dark:text-gray-400">
+          Expected ({remaining} left)
+        </div>
+      </div>
+      {confidences.map(confidence => (
+        <div key={confidence}>
+          <div className="font-mono">
+            {toTime(getAttemptsForConfidence(probability, confidence, remaining))}
+          </div>
+          <div className="text-xs text-gray-500 uppercase dark:text-gray-400">
+            {confidence * 100}% Chance
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
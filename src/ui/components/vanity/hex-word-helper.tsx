@@ -0,0 +1,54 @@
+'use client'
+
+import { useState } from 'react'
+
+import { suggestHexWords } from '@/lib/vanity/hex-words'
+import { Input } from '@/ui/shadcn/input'
+
+/** Turns a word into hex spellings (leetspeak where needed) that can be used as prefix or suffix. */
+export function HexWordHelper({
+  disabled,
+  onUse,
+}: {
+  disabled: boolean
+  onUse: (field: 'startsWith' | 'endsWith', hex: string) => void
+}) {
+  const [word, setWord] = useState('')
+  const suggestions = suggestHexWords(word)
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium" title="o→0, i/l→1, s→5, t→7, g→9, z→2">
+        Hex Word Helper
+      </label>
+      <Input value={word} onChange={e => setWord(e.target.value)} placeholder="e.g. coffee" />
+      {word.trim() !== '' && suggestions.length === 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">No hex spelling found.</p>
+      )}
+      {suggestions.map(suggestion => (
+        <div key={suggestion.hex} className="flex items-center justify-between text-xs">
+          <span className="font-mono">{suggestion.hex}</span>
+          <span className="text-gray-500 dark:text-gray-400">
+            1 in {suggestion.difficulty.toLocaleString()}
+          </span>
+          <span className="space-x-2">
+            <button
+              disabled={disabled}
+              onClick={() => onUse('startsWith', suggestion.hex)}
+              className="hover:underline disabled:opacity-50 dark:text-gray-300"
+            >
+              Prefix
+            </button>
+            <button
+              disabled={disabled}
+              onClick={() => onUse('endsWith', suggestion.hex)}
+              className="hover:underline disabled:opacity-50 dark:text-gray-300"
+            >
+              Suffix
+            </button>
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { z } from 'zod'
+
+import { exportToKeystore } from '@/lib/vanity/export'
+import type { KeystoreKdf } from '@/lib/vanity/keystore'
+import { keystoreKdfLabels } from '@/lib/vanity/keystore'
+import type { VanityResult } from '@/lib/vanity/types'
+import { Button } from '@/ui/shadcn/button'
+import { Input } from '@/ui/shadcn/input'
+
+const passwordSchema = z
+  .object({
+    password: z.string().min(8, 'Use at least 8 characters'),
+    confirm: z.string(),
+  })
+  .refine(data => data.password === data.confirm, {
+    message: 'Passwords do not match',
+    path: ['confirm'],
+  })
+
+export function KeystoreExport({
+  results,
+  disabled,
+}: {
+  results: VanityResult[]
+  /** Set until the export acknowledgement is given, like every other export of secrets */
+  disabled: boolean
+}) {
+  const [open, setOpen] = useState(false)
+  const [password, setPassword] = useState('')
+  const [confirm, setConfirm] = useState('')
+  const [kdf, setKdf] = useState<KeystoreKdf>('scrypt')
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+
+  const parsed = passwordSchema.safeParse({ password, confirm })
+  const error = parsed.success || password === '' ? null : parsed.error.issues[0].message
+
+  const handleExport = async () => {
+    setProgress({ done: 0, total: results.length })
+    try {
+      const count = await exportToKeystore(results, password, kdf, (done, total) =>
+        setProgress({ done, total }),
+      )
+      toast.success(`Exported ${count} keystore file${count === 1 ? '' : 's'}`)
+      setPassword('')
+      setConfirm('')
+      setOpen(false)
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  if (!open) {
+    return (
+      <Button variant="outline" size="sm" disabled={disabled} onClick={() => setOpen(true)}>
+        Export Keystore
+      </Button>
+    )
+  }
+
+  return (
+    <div className="space-y-2 rounded-lg border border-gray-200 p-4 dark:border-gray-800">
+      <div className="grid grid-cols-1 gap-2 md:grid-cols-3">
+        <Input
+          type="password"
+          value={password}
+          disabled={progress != null}
+          onChange={e => setPassword(e.target.value)}
+          placeholder="Password"
+        />
+        <Input
+          type="password"
+          value={confirm}
+          disabled={progress != null}
+          onChange={e => setConfirm(e.target.value)}
+          placeholder="Confirm password"
+        />
+        <select
+          value={kdf}
+          disabled={progress != null}
+          onChange={e => setKdf(e.target.value as KeystoreKdf)}
+          className="block h-9 w-full rounded border border-gray-300 px-2 text-sm dark:border-gray-700 dark:bg-gray-900"
+        >
+          {Object.entries(keystoreKdfLabels).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {error != null ? (
+        <p className="text-xs text-red-500">{error}</p>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          One keystore V3 file per key (zipped when there are several), importable with geth,{' '}
+          <code>cast wallet import</code> or MetaMask. Each key takes a few seconds to encrypt.
+        </p>
+      )}
+      <div className="flex justify-end space-x-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={progress != null}
+          onClick={() => setOpen(false)}
+        >
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          disabled={disabled || !parsed.success || progress != null}
+          onClick={handleExport}
+        >
+          {progress != null
+            ? `Encrypting ${progress.done}/${progress.total}…`
+            : 'Encrypt & Download'}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,823 @@
+'use client'
+
+import type { Address } from 'viem'
+import { useAtomValue } from 'jotai'
+import Link from 'next/link'
+import { useState } from 'react'
+import { isAddress } from 'viem'
+import { z } from 'zod'
+
+import { chains } from '@/configs/chains'
+import { getProxyCreationCode } from '@/lib/apis/safe'
+import { getAccountImplementation } from '@/lib/apis/smart-account'
+import { chainIdAtom } from '@/lib/states/evm'
+import { lookAlikeRuleLabels } from '@/lib/vanity/look-alike'
+import { defaultDerivationPath, derivationPathRegex } from '@/lib/vanity/mnemonic'
+import { parseSafeOwners, safeDeployments } from '@/lib/vanity/safe'
+import { getScoreProbability, scoreMetricLabels } from '@/lib/vanity/score'
+import { accountFactoryTemplateLabels } from '@/lib/vanity/smart-account'
+import { isPublicKey } from '@/lib/vanity/split-key'
+import type {
+  AccountFactoryTemplate,
+  ScoreMetric,
+  VanityGoal,
+  VanityMode,
+  VanityOptions,
+} from '@/lib/vanity/types'
+import { Button } from '@/ui/shadcn/button'
+import { Input } from '@/ui/shadcn/input'
+
+export const modeLabels: Record<VanityMode, string> = {
+  privateKey: 'Private Key (EOA)',
+  create: 'CREATE Contract (Deployer Key)',
+  create2: 'CREATE2 Salt',
+  mnemonic: 'Mnemonic (BIP-39)',
+  splitKey: 'Split Key (For Someone Else)',
+  safe: 'Safe Multisig (Salt Nonce)',
+  smartAccount: 'ERC-4337 Smart Account (Salt)',
+}
+
+const goalLabels: Record<VanityGoal, string> = {
+  match: 'Match Pattern',
+  score: 'Most Zero Bytes (Ranking)',
+  lookAlike: 'Look-Alike of an Address',
+}
+
+const scoreSchema = z.object({
+  metric: z.enum(['leadingZeroBytes', 'zeroBytes']),
+  target: z.number().int().min(0, 'Target must be >= 0').max(20, 'Addresses have 20 bytes'),
+  top: z.number().int().min(1, 'Keep at least 1').max(100, 'Max leaderboard size is 100'),
+})
+
+const lookAlikeSchema = z
+  .object({
+    target: z
+      .string()
+      .refine(value => isAddress(value, { strict: false }), 'Must be a valid address'),
+    rule: z.enum(['affixes', 'hamming']),
+    prefix: z.number().int().min(0, 'Must be >= 0').max(40, 'Addresses have 40 characters'),
+    suffix: z.number().int().min(0, 'Must be >= 0').max(40, 'Addresses have 40 characters'),
+    distance: z.number().int().min(0, 'Must be >= 0').max(39, 'Max distance is 39'),
+  })
+  .refine(data => data.rule !== 'affixes' || data.prefix + data.suffix <= 40, {
+    message: 'First and last characters must be <= 40 together',
+    path: ['prefix'],
+  })
+  .refine(data => data.rule !== 'affixes' || data.prefix + data.suffix > 0, {
+    message: 'Keep at least one character',
+    path: ['prefix'],
+  })
+
+const createSchema = z.object({
+  nonce: z.number().int().min(0, 'Nonce must be >= 0').max(Number.MAX_SAFE_INTEGER),
+})
+
+const create2Schema = z.object({
+  deployer: z.string().refine(value => isAddress(value), 'Must be a valid address'),
+  initCodeHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'Must be a 32-byte hex hash'),
+})
+
+const mnemonicSchema = z.object({
+  path: z.string().regex(derivationPathRegex, "Must look like m/44'/60'/0'/0/0"),
+  accounts: z.number().int().min(1, 'Check at least 1 index').max(20, 'Max 20 indexes'),
+  wordCount: z.union([z.literal(12), z.literal(24)]),
+})
+
+const splitKeySchema = z.object({
+  publicKey: z.string().refine(value => isPublicKey(value), 'Must be a secp256k1 public key'),
+})
+
+const safeSchema = z
+  .object({
+    owners: z
+      .string()
+      .refine(value => parseSafeOwners(value).length > 0, 'Add at least one owner')
+      .refine(
+        value => parseSafeOwners(value).every(owner => isAddress(owner)),
+        'Owners must be addresses with a valid checksum',
+      )
+      .refine(value => {
+        const owners = parseSafeOwners(value).map(owner => owner.toLowerCase())
+        return new Set(owners).size === owners.length
+      }, 'Owners must not repeat'),
+    threshold: z.number().int().min(1, 'Threshold must be >= 1'),
+    singleton: z.string().refine(value => isAddress(value), 'Must be a valid address'),
+    factory: z.string().refine(value => isAddress(value), 'Must be a valid address'),
+    fallbackHandler: z.string().refine(value => isAddress(value), 'Must be a valid address'),
+    proxyCreationCode: z
+      .string()
+      .regex(/^0x([0-9a-fA-F]{2})+$/, 'Must be hex bytecode, fetch it from the factory'),
+  })
+  .refine(data => data.threshold <= parseSafeOwners(data.owners).length, {
+    message: 'Threshold must be <= the number of owners',
+    path: ['threshold'],
+  })
+
+const bytecodeRegex = /^0x([0-9a-fA-F]{2})+$/
+
+const smartAccountSchema = z
+  .object({
+    template: z.enum(['simpleAccount', 'kernel', 'custom']),
+    factory: z.string().refine(value => isAddress(value), 'Must be a valid address'),
+    proxyInitCode: z.string().regex(bytecodeRegex, 'Must be hex bytecode'),
+    implementation: z.string(),
+    owner: z.string(),
+    initData: z.string(),
+  })
+  .refine(data => data.template !== 'simpleAccount' || isAddress(data.implementation), {
+    message: 'Must be a valid address',
+    path: ['implementation'],
+  })
+  .refine(data => data.template !== 'simpleAccount' || isAddress(data.owner), {
+    message: 'Must be a valid address',
+    path: ['owner'],
+  })
+  .refine(data => data.template !== 'kernel' || bytecodeRegex.test(data.initData), {
+    message: 'Must be hex calldata',
+    path: ['initData'],
+  })
+
+const parseModeOptions = (options: VanityOptions) => {
+  switch (options.mode) {
+    case 'create':
+      return createSchema.safeParse(options.create)
+    case 'create2':
+      return create2Schema.safeParse(options.create2)
+    case 'mnemonic':
+      return mnemonicSchema.safeParse(options.mnemonic)
+    case 'splitKey':
+      return splitKeySchema.safeParse(options.splitKey)
+    case 'safe':
+      return safeSchema.safeParse(options.safe)
+    case 'smartAccount':
+      return smartAccountSchema.safeParse(options.smartAccount)
+    default:
+      return null
+  }
+}
+
+export const getOptionsErrors = (options: VanityOptions) => {
+  const newErrors: Record<string, string> = {}
+
+  const results = [
+    options.goal === 'score' ? scoreSchema.safeParse(options.score) : null,
+    options.goal === 'lookAlike' ? lookAlikeSchema.safeParse(options.lookAlike) : null,
+    parseModeOptions(options),
+  ]
+  results.forEach(result => {
+    if (result != null && !result.success) {
+      result.error.issues.forEach(err => {
+        if (err.path[0] !== undefined) {
+          newErrors[err.path[0] as string] = err.message
+        }
+      })
+    }
+  })
+
+  return newErrors
+}
+
+export function VanityModeOptions({
+  options,
+  errors,
+  disabled,
+  onChange,
+}: {
+  options: VanityOptions
+  errors: Record<string, string>
+  disabled: boolean
+  onChange: (options: VanityOptions) => void
+}) {
+  const setScore = (score: Partial<VanityOptions['score']>) =>
+    onChange({ ...options, score: { ...options.score, ...score } })
+
+  const setLookAlike = (lookAlike: Partial<VanityOptions['lookAlike']>) =>
+    onChange({ ...options, lookAlike: { ...options.lookAlike, ...lookAlike } })
+
+  const setSafe = (safe: Partial<VanityOptions['safe']>) =>
+    onChange({ ...options, safe: { ...options.safe, ...safe } })
+
+  const setSmartAccount = (smartAccount: Partial<VanityOptions['smartAccount']>) =>
+    onChange({ ...options, smartAccount: { ...options.smartAccount, ...smartAccount } })
+
+  const chainId = useAtomValue(chainIdAtom)
+  const [isFetchingCode, setIsFetchingCode] = useState(false)
+  const [isFetchingImplementation, setIsFetchingImplementation] = useState(false)
+  const fetchProxyCreationCode = async () => {
+    setIsFetchingCode(true)
+    try {
+      // Failed reads surface through the global error toast
+      const code = await getProxyCreationCode({
+        chainId,
+        factory: options.safe.factory as Address,
+      })
+      setSafe({ proxyCreationCode: code })
+    } finally {
+      setIsFetchingCode(false)
+    }
+  }
+  const fetchAccountImplementation = async () => {
+    setIsFetchingImplementation(true)
+    try {
+      const implementation = await getAccountImplementation({
+        chainId,
+        factory: options.smartAccount.factory as Address,
+      })
+      setSmartAccount({ implementation })
+    } finally {
+      setIsFetchingImplementation(false)
+    }
+  }
+
+  const parseNumber = (value: string) => {
+    const val = parseInt(value)
+    return isNaN(val) ? 0 : val
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-4">
+        <label className="text-sm font-medium">Goal:</label>
+        <select
+          value={options.goal}
+          disabled={disabled}
+          onChange={e => onChange({ ...options, goal: e.target.value as VanityGoal })}
+          className="rounded border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-900"
+        >
+          {Object.entries(goalLabels).map(([goal, label]) => (
+            <option key={goal} value={goal}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {options.goal === 'score' && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div>
+            <label className="text-sm font-medium">Score</label>
+            <select
+              value={options.score.metric}
+              disabled={disabled}
+              onChange={e => setScore({ metric: e.target.value as ScoreMetric })}
+              className="block h-9 w-full rounded border border-gray-300 px-2 text-sm dark:border-gray-700 dark:bg-gray-900"
+            >
+              {Object.entries(scoreMetricLabels).map(([metric, label]) => (
+                <option key={metric} value={metric}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm font-medium">Target Score</label>
+            <Input
+              type="number"
+              min={0}
+              max={20}
+              value={options.score.target}
+              disabled={disabled}
+              onChange={e => setScore({ target: parseNumber(e.target.value) })}
+              className={errors.target !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.target !== undefined ? (
+              <p className="text-xs text-red-500">{errors.target}</p>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {options.score.target > 0
+                  ? `Stops at ${options.score.target}: 1 in ${Math.round(1 / getScoreProbability(options.score.metric, options.score.target)).toLocaleString()} per attempt.`
+                  : 'Runs until stopped (0 = no target).'}
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="text-sm font-medium">Leaderboard Size</label>
+            <Input
+              type="number"
+              min={1}
+              max={100}
+              value={options.score.top}
+              disabled={disabled}
+              onChange={e => setScore({ top: parseNumber(e.target.value) })}
+              className={errors.top !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.top !== undefined && <p className="text-xs text-red-500">{errors.top}</p>}
+          </div>
+        </div>
+      )}
+
+      {options.goal === 'lookAlike' && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="md:col-span-3">
+            <label className="text-sm font-medium">Target Address</label>
+            <Input
+              value={options.lookAlike.target}
+              disabled={disabled}
+              onChange={e => setLookAlike({ target: e.target.value.trim() })}
+              placeholder="0x…"
+              className={errors.target !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.target !== undefined ? (
+              <p className="text-xs text-red-500">{errors.target}</p>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                For testing how wallets display address-poisoning lures. Results also have to match
+                the rules below; leave them empty to only look alike.
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="text-sm font-medium">Similarity</label>
+            <select
+              value={options.lookAlike.rule}
+              disabled={disabled}
+              onChange={e =>
+                setLookAlike({ rule: e.target.value as VanityOptions['lookAlike']['rule'] })
+              }
+              className="block h-9 w-full rounded border border-gray-300 px-2 text-sm dark:border-gray-700 dark:bg-gray-900"
+            >
+              {Object.entries(lookAlikeRuleLabels).map(([rule, label]) => (
+                <option key={rule} value={rule}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {options.lookAlike.rule === 'affixes' ? (
+            <>
+              <div>
+                <label className="text-sm font-medium">First Characters</label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={40}
+                  value={options.lookAlike.prefix}
+                  disabled={disabled}
+                  onChange={e => setLookAlike({ prefix: parseNumber(e.target.value) })}
+                  className={errors.prefix !== undefined ? 'border-red-500' : ''}
+                />
+                {errors.prefix !== undefined && (
+                  <p className="text-xs text-red-500">{errors.prefix}</p>
+                )}
+              </div>
+              <div>
+                <label className="text-sm font-medium">Last Characters</label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={40}
+                  value={options.lookAlike.suffix}
+                  disabled={disabled}
+                  onChange={e => setLookAlike({ suffix: parseNumber(e.target.value) })}
+                  className={errors.suffix !== undefined ? 'border-red-500' : ''}
+                />
+                {errors.suffix !== undefined && (
+                  <p className="text-xs text-red-500">{errors.suffix}</p>
+                )}
+              </div>
+            </>
+          ) : (
+            <div>
+              <label className="text-sm font-medium">Max Different Characters</label>
+              <Input
+                type="number"
+                min={0}
+                max={39}
+                value={options.lookAlike.distance}
+                disabled={disabled}
+                onChange={e => setLookAlike({ distance: parseNumber(e.target.value) })}
+                className={errors.distance !== undefined ? 'border-red-500' : ''}
+              />
+              {errors.distance !== undefined && (
+                <p className="text-xs text-red-500">{errors.distance}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center space-x-4">
+        <label className="text-sm font-medium">Mode:</label>
+        <select
+          value={options.mode}
+          disabled={disabled}
+          onChange={e => onChange({ ...options, mode: e.target.value as VanityMode })}
+          className="rounded border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-900"
+        >
+          {Object.entries(modeLabels).map(([mode, label]) => (
+            <option key={mode} value={mode}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {options.mode === 'create' && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div>
+            <label className="text-sm font-medium">Deployer Nonce</label>
+            <Input
+              type="number"
+              min={0}
+              value={options.create.nonce}
+              disabled={disabled}
+              onChange={e => {
+                const val = parseInt(e.target.value)
+                onChange({ ...options, create: { nonce: isNaN(val) ? 0 : val } })
+              }}
+              className={errors.nonce !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.nonce !== undefined ? (
+              <p className="text-xs text-red-500">{errors.nonce}</p>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                The pattern is matched against the contract deployed by the key&apos;s transaction
+                with this nonce (0 for its first transaction).
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {options.mode === 'mnemonic' && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div>
+            <label className="text-sm font-medium">Derivation Path</label>
+            <Input
+              value={options.mnemonic.path}
+              disabled={disabled}
+              onChange={e =>
+                onChange({
+                  ...options,
+                  mnemonic: { ...options.mnemonic, path: e.target.value.trim() },
+                })
+              }
+              placeholder={defaultDerivationPath}
+              className={errors.path !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.path !== undefined && <p className="text-xs text-red-500">{errors.path}</p>}
+          </div>
+          <div>
+            <label className="text-sm font-medium">Indexes per Mnemonic</label>
+            <Input
+              type="number"
+              min={1}
+              max={20}
+              value={options.mnemonic.accounts}
+              disabled={disabled}
+              onChange={e =>
+                onChange({
+                  ...options,
+                  mnemonic: { ...options.mnemonic, accounts: parseNumber(e.target.value) },
+                })
+              }
+              className={errors.accounts !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.accounts !== undefined ? (
+              <p className="text-xs text-red-500">{errors.accounts}</p>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Checks the last path segment and the ones after it.
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="text-sm font-medium">Words</label>
+            <select
+              value={options.mnemonic.wordCount}
+              disabled={disabled}
+              onChange={e =>
+                onChange({
+                  ...options,
+                  mnemonic: { ...options.mnemonic, wordCount: Number(e.target.value) as 12 | 24 },
+                })
+              }
+              className="block h-9 w-full rounded border border-gray-300 px-2 text-sm dark:border-gray-700 dark:bg-gray-900"
+            >
+              <option value={12}>12 words</option>
+              <option value={24}>24 words</option>
+            </select>
+          </div>
+          <p className="text-xs text-yellow-600 md:col-span-3">
+            Every mnemonic needs a slow seed derivation, so expect far fewer attempts per second
+            than with raw private keys.
+          </p>
+        </div>
+      )}
+
+      {options.mode === 'splitKey' && (
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Requester Public Key</label>
+          <Input
+            value={options.splitKey.publicKey}
+            disabled={disabled}
+            onChange={e => onChange({ ...options, splitKey: { publicKey: e.target.value.trim() } })}
+            placeholder="0x04… or 0x02… / 0x03…"
+            className={errors.publicKey !== undefined ? 'border-red-500' : ''}
+          />
+          {errors.publicKey !== undefined ? (
+            <p className="text-xs text-red-500">{errors.publicKey}</p>
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Found partial keys are useless on their own: send them to the requester, who adds
+              their secret on the{' '}
+              <Link href="/split-key" className="underline">
+                combine screen
+              </Link>
+              .
+            </p>
+          )}
+        </div>
+      )}
+
+      {options.mode === 'create2' && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div>
+            <label className="text-sm font-medium">Deployer / Factory Address</label>
+            <Input
+              value={options.create2.deployer}
+              disabled={disabled}
+              onChange={e =>
+                onChange({
+                  ...options,
+                  create2: { ...options.create2, deployer: e.target.value.trim() },
+                })
+              }
+              placeholder="0x4e59b44847b379578588920cA78FbF26c0B4956C"
+              className={errors.deployer !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.deployer !== undefined && (
+              <p className="text-xs text-red-500">{errors.deployer}</p>
+            )}
+          </div>
+          <div>
+            <label className="text-sm font-medium">Init Code Hash</label>
+            <Input
+              value={options.create2.initCodeHash}
+              disabled={disabled}
+              onChange={e =>
+                onChange({
+                  ...options,
+                  create2: { ...options.create2, initCodeHash: e.target.value.trim() },
+                })
+              }
+              placeholder="keccak256(initCode)"
+              className={errors.initCodeHash !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.initCodeHash !== undefined && (
+              <p className="text-xs text-red-500">{errors.initCodeHash}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {options.mode === 'safe' && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="md:col-span-2">
+            <label className="text-sm font-medium">Owners</label>
+            <Input
+              value={options.safe.owners}
+              disabled={disabled}
+              onChange={e => setSafe({ owners: e.target.value })}
+              placeholder="0x…, 0x…"
+              className={errors.owners !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.owners !== undefined ? (
+              <p className="text-xs text-red-500">{errors.owners}</p>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Separated by commas; the order is part of the address.
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="text-sm font-medium">Threshold</label>
+            <Input
+              type="number"
+              min={1}
+              value={options.safe.threshold}
+              disabled={disabled}
+              onChange={e => setSafe({ threshold: parseNumber(e.target.value) })}
+              className={errors.threshold !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.threshold !== undefined && (
+              <p className="text-xs text-red-500">{errors.threshold}</p>
+            )}
+          </div>
+          <div>
+            <label className="text-sm font-medium">Singleton</label>
+            <Input
+              value={options.safe.singleton}
+              disabled={disabled}
+              onChange={e => setSafe({ singleton: e.target.value.trim() })}
+              placeholder={safeDeployments.safe}
+              className={errors.singleton !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.singleton !== undefined ? (
+              <p className="text-xs text-red-500">{errors.singleton}</p>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Safe v1.4.1 by default; L2 chains usually deploy{' '}
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => setSafe({ singleton: safeDeployments.safeL2 })}
+                  className="underline"
+                >
+                  SafeL2
+                </button>
+                .
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="text-sm font-medium">Proxy Factory</label>
+            <Input
+              value={options.safe.factory}
+              disabled={disabled}
+              onChange={e => setSafe({ factory: e.target.value.trim() })}
+              placeholder={safeDeployments.factory}
+              className={errors.factory !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.factory !== undefined && (
+              <p className="text-xs text-red-500">{errors.factory}</p>
+            )}
+          </div>
+          <div>
+            <label className="text-sm font-medium">Fallback Handler</label>
+            <Input
+              value={options.safe.fallbackHandler}
+              disabled={disabled}
+              onChange={e => setSafe({ fallbackHandler: e.target.value.trim() })}
+              placeholder={safeDeployments.fallbackHandler}
+              className={errors.fallbackHandler !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.fallbackHandler !== undefined && (
+              <p className="text-xs text-red-500">{errors.fallbackHandler}</p>
+            )}
+          </div>
+          <div className="md:col-span-3">
+            <label className="text-sm font-medium">Proxy Creation Code</label>
+            <div className="flex space-x-2">
+              <Input
+                value={options.safe.proxyCreationCode}
+                disabled={disabled}
+                onChange={e => setSafe({ proxyCreationCode: e.target.value.trim() })}
+                placeholder="0x608060…"
+                className={`font-mono ${errors.proxyCreationCode !== undefined ? 'border-red-500' : ''}`}
+              />
+              <Button
+                variant="outline"
+                disabled={disabled || isFetchingCode || !isAddress(options.safe.factory)}
+                onClick={fetchProxyCreationCode}
+              >
+                {isFetchingCode ? 'Fetching…' : `Fetch from ${chains[chainId].name}`}
+              </Button>
+            </div>
+            {errors.proxyCreationCode !== undefined ? (
+              <p className="text-xs text-red-500">{errors.proxyCreationCode}</p>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                The factory&apos;s <code>proxyCreationCode()</code>. Results come with the{' '}
+                <code>createProxyWithNonce</code> calldata to send to the factory; anyone can deploy
+                it, on any chain with the same factory and singleton.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {options.mode === 'smartAccount' && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div>
+            <label className="text-sm font-medium">Factory Template</label>
+            <select
+              value={options.smartAccount.template}
+              disabled={disabled}
+              onChange={e =>
+                setSmartAccount({ template: e.target.value as AccountFactoryTemplate })
+              }
+              className="block h-9 w-full rounded border border-gray-300 px-2 text-sm dark:border-gray-700 dark:bg-gray-900"
+            >
+              {Object.entries(accountFactoryTemplateLabels).map(([template, label]) => (
+                <option key={template} value={template}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm font-medium">Factory Address</label>
+            <Input
+              value={options.smartAccount.factory}
+              disabled={disabled}
+              onChange={e => setSmartAccount({ factory: e.target.value.trim() })}
+              placeholder="0x…"
+              className={errors.factory !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.factory !== undefined && (
+              <p className="text-xs text-red-500">{errors.factory}</p>
+            )}
+          </div>
+          <div className="md:col-span-2">
+            <label className="text-sm font-medium">
+              {options.smartAccount.template === 'simpleAccount'
+                ? 'ERC1967Proxy Creation Code'
+                : 'Proxy Init Code'}
+            </label>
+            <Input
+              value={options.smartAccount.proxyInitCode}
+              disabled={disabled}
+              onChange={e => setSmartAccount({ proxyInitCode: e.target.value.trim() })}
+              placeholder="0x608060…"
+              className={`font-mono ${errors.proxyInitCode !== undefined ? 'border-red-500' : ''}`}
+            />
+            {errors.proxyInitCode !== undefined ? (
+              <p className="text-xs text-red-500">{errors.proxyInitCode}</p>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {options.smartAccount.template === 'simpleAccount'
+                  ? 'Without constructor arguments: the implementation and initialize(owner) are appended.'
+                  : 'Exactly the init code the factory deploys, constructor arguments included.'}
+              </p>
+            )}
+          </div>
+          {options.smartAccount.template === 'simpleAccount' && (
+            <>
+              <div>
+                <label className="text-sm font-medium">Account Implementation</label>
+                <div className="flex space-x-2">
+                  <Input
+                    value={options.smartAccount.implementation}
+                    disabled={disabled}
+                    onChange={e => setSmartAccount({ implementation: e.target.value.trim() })}
+                    placeholder="0x…"
+                    className={errors.implementation !== undefined ? 'border-red-500' : ''}
+                  />
+                  <Button
+                    variant="outline"
+                    disabled={
+                      disabled ||
+                      isFetchingImplementation ||
+                      !isAddress(options.smartAccount.factory)
+                    }
+                    onClick={fetchAccountImplementation}
+                  >
+                    {isFetchingImplementation ? 'Fetching…' : 'Fetch'}
+                  </Button>
+                </div>
+                {errors.implementation !== undefined ? (
+                  <p className="text-xs text-red-500">{errors.implementation}</p>
+                ) : (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    The factory&apos;s <code>accountImplementation()</code> on{' '}
+                    {chains[chainId].name}.
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="text-sm font-medium">Owner</label>
+                <Input
+                  value={options.smartAccount.owner}
+                  disabled={disabled}
+                  onChange={e => setSmartAccount({ owner: e.target.value.trim() })}
+                  placeholder="0x…"
+                  className={errors.owner !== undefined ? 'border-red-500' : ''}
+                />
+                {errors.owner !== undefined && (
+                  <p className="text-xs text-red-500">{errors.owner}</p>
+                )}
+              </div>
+            </>
+          )}
+          {options.smartAccount.template === 'kernel' && (
+            <div className="md:col-span-2">
+              <label className="text-sm font-medium">Init Data</label>
+              <Input
+                value={options.smartAccount.initData}
+                disabled={disabled}
+                onChange={e => setSmartAccount({ initData: e.target.value.trim() })}
+                placeholder="0x…"
+                className={`font-mono ${errors.initData !== undefined ? 'border-red-500' : ''}`}
+              />
+              {errors.initData !== undefined ? (
+                <p className="text-xs text-red-500">{errors.initData}</p>
+              ) : (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  The <code>data</code> argument of <code>createAccount(data, salt)</code>: the
+                  account&apos;s initialize call with its validator and owner.
+                </p>
+              )}
+            </div>
+          )}
+          <p className="text-xs text-gray-500 md:col-span-2 dark:text-gray-400">
+            Addresses are computed offline, like the factory&apos;s <code>getAddress</code>.{' '}
+            {options.smartAccount.template === 'custom'
+              ? 'Results only carry the salt: pass it to the factory as it expects.'
+              : 'Results come with the createAccount calldata, usable as the factoryData of the first user operation.'}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { createPortal } from 'react-dom'
+
+import { formatTime } from '@/lib/utils/formatters'
+import { describePattern } from '@/lib/vanity/batch'
+import type { VanityConfig, VanityResult } from '@/lib/vanity/types'
+import { QrCode } from '@/ui/components/shared/qr-code'
+import { Button } from '@/ui/shadcn/button'
+
+/** Results a paper wallet can back up: the ones that carry a private key or a mnemonic. */
+export function hasPaperWalletSecret(result: VanityResult): boolean {
+  return result.privateKey != null || result.mnemonic != null
+}
+
+/**
+ * Printable backup of keys, one card per result. QR codes are drawn in the page and printing goes
+ * through `window.print`: nothing is uploaded or opened in another window. While it is open the
+ * print stylesheet hides the rest of the app.
+ */
+export function PaperWallet({
+  results,
+  patterns,
+  onClose,
+}: {
+  results: VanityResult[]
+  patterns: VanityConfig[]
+  onClose: () => void
+}) {
+  const wallets = results.filter(hasPaperWalletSecret)
+
+  return createPortal(
+    <div
+      data-paper-wallet
+      className="fixed inset-0 z-50 overflow-auto bg-white text-black print:static print:overflow-visible"
+    >
+      <div className="mx-auto max-w-4xl space-y-4 p-6 print:max-w-none print:p-0">
+        <div className="flex items-center justify-between print:hidden">
+          <div>
+            <h3 className="text-lg font-medium">Paper Wallet</h3>
+            <p className="text-xs text-gray-600">
+              Print on a trusted, offline printer and close this view afterwards. Anyone holding the
+              paper controls the funds.
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={onClose}>
+              Close
+            </Button>
+            <Button size="sm" disabled={wallets.length === 0} onClick={() => window.print()}>
+              Print
+            </Button>
+          </div>
+        </div>
+
+        {wallets.map(result => (
+          <PaperWalletCard
+            key={result.address}
+            result={result}
+            pattern={patterns[result.patternIndex ?? 0] ?? patterns[0]}
+          />
+        ))}
+      </div>
+    </div>,
+    document.body,
+  )
+}
+
+function PaperWalletCard({ result, pattern }: { result: VanityResult; pattern?: VanityConfig }) {
+  const secret =
+    result.privateKey != null
+      ? { label: 'Private Key', value: result.privateKey }
+      : { label: 'Mnemonic', value: result.mnemonic ?? '' }
+
+  return (
+    <div className="break-inside-avoid rounded-lg border-2 border-dashed border-gray-400 p-6">
+      <div className="mb-4 flex justify-between text-xs text-gray-600">
+        <span>{pattern != null ? `Pattern: ${describePattern(pattern)}` : 'Vanity address'}</span>
+        <span>Created {formatTime(result.createdAt)}</span>
+      </div>
+      <div className="grid grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Address (share)</div>
+          <QrCode value={result.address} className="h-40 w-40" />
+          <div className="font-mono text-xs break-all">{result.address}</div>
+        </div>
+        <div className="space-y-2">
+          <div className="text-sm font-medium">{secret.label} (keep secret)</div>
+          <QrCode value={secret.value} className="h-40 w-40" />
+          <div className="font-mono text-xs break-all">{secret.value}</div>
+          {result.path != null && (
+            <div className="text-xs text-gray-600">Derivation path {result.path}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,549 @@
+'use client'
+
+import { useAtom, useAtomValue } from 'jotai'
+import Link from 'next/link'
+import { Fragment, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+
+import type { ExportFormat, RevealPolicy } from '@/lib/states/vanity'
+import {
+  vanityExportFormatAtom,
+  vanityRevealPolicyAtom,
+  vanityShareParamsAtom,
+} from '@/lib/states/vanity'
+import { formatTime, formatTimeFromNow } from '@/lib/utils/formatters'
+import { describePattern, groupByPattern } from '@/lib/vanity/batch'
+import { exportToCSV, exportToJSON } from '@/lib/vanity/export'
+import { getMatchSegments } from '@/lib/vanity/match'
+import type { VanityConfig, VanityGoal, VanityResult } from '@/lib/vanity/types'
+import { getVerifyTarget } from '@/lib/vanity/verify'
+import { Button } from '@/ui/shadcn/button'
+import { Input } from '@/ui/shadcn/input'
+import { KeystoreExport } from './keystore-export'
+import { hasPaperWalletSecret, PaperWallet } from './paper-wallet'
+
+const revealPolicyLabels: Record<RevealPolicy, string> = {
+  confirm: 'Ask before revealing',
+  direct: 'Reveal on click',
+  never: 'Never reveal (export only)',
+}
+
+type ResultSort = 'oldest' | 'newest' | 'score'
+
+const sortLabels: Record<ResultSort, string> = {
+  oldest: 'Found first',
+  newest: 'Found last',
+  score: 'Best score',
+}
+
+const sorters: Record<ResultSort, (a: VanityResult, b: VanityResult) => number> = {
+  oldest: (a, b) => a.createdAt - b.createdAt,
+  newest: (a, b) => b.createdAt - a.createdAt,
+  // Ties keep the earlier find, like the live leaderboard
+  score: (a, b) =>
+    a.score === b.score ? a.createdAt - b.createdAt : (b.score ?? 0) - (a.score ?? 0),
+}
+
+// Only public fields: typing into the filter never searches secrets
+function matchFilter(result: VanityResult, query: string) {
+  return [
+    result.address,
+    result.path,
+    result.deployer,
+    result.salt,
+    result.saltNonce,
+    result.partialKey,
+  ].some(value => value?.toLowerCase().includes(query) === true)
+}
+
+const copyToClipboard = (text: string, label: string) => {
+  navigator.clipboard.writeText(text)
+  toast.success(`Copied ${label}`)
+}
+
+export function ResultsTable({
+  results,
+  patterns,
+  goal,
+  canDelete,
+  onDelete,
+}: {
+  results: VanityResult[]
+  patterns: VanityConfig[]
+  goal: VanityGoal
+  /** Deleting is blocked while workers still count the results towards their quotas */
+  canDelete: boolean
+  onDelete: (addresses: string[]) => void
+}) {
+  const [exportFormat, setExportFormat] = useAtom(vanityExportFormatAtom)
+  const [revealPolicy, setRevealPolicy] = useAtom(vanityRevealPolicyAtom)
+  const [exportConfirmed, setExportConfirmed] = useState(false)
+  const [sort, setSort] = useState<ResultSort | null>(null)
+  const [filter, setFilter] = useState('')
+  const [selected, setSelected] = useState<ReadonlySet<string>>(new Set())
+  const [paperWallet, setPaperWallet] = useState<VanityResult[] | null>(null)
+  const shareParams = useAtomValue(vanityShareParamsAtom)
+
+  // Salts and partial keys are public; only private keys and mnemonics need the export acknowledgement
+  const hasPrivateKeys = results.some(r => r.privateKey != null)
+  const hasMnemonics = results.some(r => r.mnemonic != null)
+  const hasPartialKeys = results.some(r => r.partialKey != null)
+  const hasSaltNonces = results.some(r => r.saltNonce != null)
+  const hasDeployers = results.some(r => r.deployer != null)
+  const hasScores = results.some(r => r.score != null)
+  const hasDistances = results.some(r => r.distance != null)
+  const canExport = !(hasPrivateKeys || hasMnemonics) || exportConfirmed
+  const columnCount = 6 + (hasScores ? 1 : 0) + (hasDistances ? 1 : 0) + (hasDeployers ? 1 : 0)
+
+  // Scored results default to the leaderboard order, everything else to the order found
+  const activeSort = sort ?? (hasScores ? 'score' : 'oldest')
+  const visible = useMemo(() => {
+    const query = filter.trim().toLowerCase()
+    return results
+      .filter(result => query === '' || matchFilter(result, query))
+      .sort(sorters[activeSort])
+  }, [results, filter, activeSort])
+
+  // Bulk actions only touch rows the filter shows
+  const selectedResults = visible.filter(r => selected.has(r.address))
+  const allSelected = visible.length > 0 && selectedResults.length === visible.length
+  const foundCounts = groupByPattern(results, patterns).map(group => group.results.length)
+  const groups = groupByPattern(visible, patterns).filter(group => group.results.length > 0)
+
+  const toggle = (address: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (!next.delete(address)) next.add(address)
+      return next
+    })
+  }
+
+  const exportResults = (exported: VanityResult[]) =>
+    exportFormat === 'json' ? exportToJSON(exported, patterns) : exportToCSV(exported, patterns)
+
+  const deleteSelected = () => {
+    const hasSecrets = selectedResults.some(r => r.privateKey != null || r.mnemonic != null)
+    const count = selectedResults.length
+    if (
+      hasSecrets &&
+      !confirm(
+        `Delete ${count} result${count === 1 ? '' : 's'}? Keys that were not exported are lost.`,
+      )
+    ) {
+      return
+    }
+    onDelete(selectedResults.map(r => r.address))
+    setSelected(new Set())
+  }
+
+  // Only public fields and config go into the link, the key is pasted on the verifier
+  const getVerifyHref = (result: VanityResult) => {
+    const { address, path } = getVerifyTarget(result)
+    const params = new URLSearchParams(shareParams)
+    params.set('address', address)
+    if (path != null) params.set('path', path)
+    return `/verify#${params.toString()}`
+  }
+
+  const renderRow = (result: VanityResult, index: number) => (
+    <ResultRow
+      key={result.address}
+      index={index}
+      result={result}
+      pattern={patterns[result.patternIndex ?? 0] ?? patterns[0]}
+      selected={selected.has(result.address)}
+      revealPolicy={revealPolicy}
+      onSelect={() => toggle(result.address)}
+      onCopy={copyToClipboard}
+      // Printing a key is an export, so it needs the same acknowledgement
+      onPrint={canExport ? () => setPaperWallet([result]) : undefined}
+      verifyHref={getVerifyHref(result)}
+    />
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col justify-between gap-4 md:flex-row md:items-center">
+        <h3 className="text-lg font-medium">Results</h3>
+        <div className="flex flex-col gap-2 md:flex-row md:items-center">
+          {(hasPrivateKeys || hasMnemonics) && (
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="exportConfirm"
+                checked={exportConfirmed}
+                onChange={e => setExportConfirmed(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 dark:border-gray-700 dark:bg-gray-900"
+              />
+              <label htmlFor="exportConfirm" className="text-xs text-gray-600 dark:text-gray-400">
+                I understand private keys and mnemonics are sensitive and will not share them.
+              </label>
+            </div>
+          )}
+          <div className="flex space-x-2">
+            {(hasPrivateKeys || hasMnemonics) && (
+              <select
+                value={revealPolicy}
+                onChange={e => setRevealPolicy(e.target.value as RevealPolicy)}
+                className="rounded border border-gray-300 px-2 text-xs dark:border-gray-700 dark:bg-gray-900"
+                title="How secrets are revealed in the table"
+              >
+                {Object.entries(revealPolicyLabels).map(([policy, label]) => (
+                  <option key={policy} value={policy}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              value={exportFormat}
+              onChange={e => setExportFormat(e.target.value as ExportFormat)}
+              className="rounded border border-gray-300 px-2 text-xs dark:border-gray-700 dark:bg-gray-900"
+            >
+              <option value="csv">CSV</option>
+              <option value="json">JSON</option>
+            </select>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!canExport}
+              onClick={() => exportResults(results)}
+            >
+              Export
+            </Button>
+            {(hasPrivateKeys || hasMnemonics) && (
+              <KeystoreExport results={results} disabled={!canExport} />
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2 md:flex-row md:items-center">
+        <Input
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          placeholder="Filter by address, path, deployer or salt"
+          className="md:max-w-sm"
+        />
+        <select
+          value={activeSort}
+          onChange={e => setSort(e.target.value as ResultSort)}
+          className="h-9 rounded border border-gray-300 px-2 text-sm dark:border-gray-700 dark:bg-gray-900"
+        >
+          {(Object.keys(sortLabels) as ResultSort[])
+            .filter(key => key !== 'score' || hasScores)
+            .map(key => (
+              <option key={key} value={key}>
+                {sortLabels[key]}
+              </option>
+            ))}
+        </select>
+        {selectedResults.length > 0 && (
+          <div className="flex items-center space-x-2 md:ml-auto">
+            <span className="text-xs text-gray-600 dark:text-gray-400">
+              {selectedResults.length} selected
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                copyToClipboard(
+                  selectedResults.map(r => r.address).join('\n'),
+                  `${selectedResults.length} address${selectedResults.length === 1 ? '' : 'es'}`,
+                )
+              }
+            >
+              Copy Addresses
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!canExport}
+              onClick={() => exportResults(selectedResults)}
+            >
+              Export Selected
+            </Button>
+            {selectedResults.some(hasPaperWalletSecret) && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!canExport}
+                onClick={() => setPaperWallet(selectedResults)}
+              >
+                Paper Wallet
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!canDelete}
+              onClick={deleteSelected}
+              title={canDelete ? undefined : 'Stop the search to delete results'}
+            >
+              Delete
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-hidden rounded-lg border border-gray-200 dark:border-gray-800">
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-gray-200 bg-gray-50 dark:border-gray-800 dark:bg-gray-900">
+            <tr>
+              <th className="w-8 px-4 py-2">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  disabled={visible.length === 0}
+                  onChange={() =>
+                    setSelected(allSelected ? new Set() : new Set(visible.map(r => r.address)))
+                  }
+                  className="h-4 w-4 rounded border-gray-300 dark:border-gray-700 dark:bg-gray-900"
+                  title="Select all shown results"
+                />
+              </th>
+              <th className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">#</th>
+              <th className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">Address</th>
+              {hasScores && (
+                <th className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">Score</th>
+              )}
+              {hasDistances && (
+                <th
+                  className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100"
+                  title="Characters that differ from the target"
+                >
+                  Distance
+                </th>
+              )}
+              {hasDeployers && (
+                <th className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">Deployer</th>
+              )}
+              <th className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">
+                {hasPrivateKeys
+                  ? 'Private Key'
+                  : hasMnemonics
+                    ? 'Mnemonic'
+                    : hasPartialKeys
+                      ? 'Partial Key'
+                      : hasSaltNonces
+                        ? 'Salt Nonce'
+                        : 'Salt'}
+              </th>
+              <th className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">Found</th>
+              <th className="px-4 py-2 text-right font-medium text-gray-900 dark:text-gray-100">
+                Action
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+            {visible.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={columnCount}
+                  className="px-4 py-6 text-center text-xs text-gray-500 dark:text-gray-400"
+                >
+                  No results match the filter.
+                </td>
+              </tr>
+            ) : patterns.length > 1 ? (
+              groups.map(group => (
+                <Fragment key={group.patternIndex}>
+                  <tr className="bg-gray-50/50 dark:bg-gray-900/50">
+                    <td
+                      colSpan={columnCount}
+                      className="px-4 py-2 text-xs font-medium text-gray-600 dark:text-gray-400"
+                    >
+                      Pattern {group.patternIndex + 1}:{' '}
+                      <span className="font-mono">{describePattern(group.pattern)}</span>
+                      {goal === 'match' &&
+                        ` (${foundCounts[group.patternIndex]} / ${group.pattern.count})`}
+                    </td>
+                  </tr>
+                  {group.results.map((r, i) => renderRow(r, i + 1))}
+                </Fragment>
+              ))
+            ) : (
+              visible.map((r, i) => renderRow(r, i + 1))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {paperWallet != null && (
+        <PaperWallet
+          results={paperWallet}
+          patterns={patterns}
+          onClose={() => setPaperWallet(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+function getResultSecret(result: VanityResult) {
+  if (result.privateKey != null) {
+    return { label: 'Private Key', shortLabel: 'PK', value: result.privateKey }
+  }
+  if (result.mnemonic != null) {
+    return { label: 'Mnemonic', shortLabel: 'Mnemonic', value: result.mnemonic }
+  }
+  return null
+}
+
+function getResultPublicValue(result: VanityResult) {
+  if (result.partialKey != null) {
+    return { label: 'Partial Key', value: result.partialKey }
+  }
+  if (result.saltNonce != null) {
+    return { label: 'Salt Nonce', value: result.saltNonce }
+  }
+  return { label: 'Salt', value: result.salt ?? '' }
+}
+
+function ResultRow({
+  index,
+  result,
+  pattern,
+  selected,
+  revealPolicy,
+  onSelect,
+  onCopy,
+  onPrint,
+  verifyHref,
+}: {
+  index: number
+  result: VanityResult
+  pattern: VanityConfig
+  selected: boolean
+  revealPolicy: RevealPolicy
+  onSelect: () => void
+  onCopy: (t: string, l: string) => void
+  onPrint?: () => void
+  verifyHref: string
+}) {
+  const [revealed, setRevealed] = useState(false)
+  const secret = getResultSecret(result)
+  const publicValue = getResultPublicValue(result)
+
+  return (
+    <tr className="transition-colors hover:bg-gray-50 dark:hover:bg-gray-800/50">
+      <td className="px-4 py-2">
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={onSelect}
+          className="h-4 w-4 rounded border-gray-300 dark:border-gray-700 dark:bg-gray-900"
+        />
+      </td>
+      <td className="px-4 py-2 text-gray-500 dark:text-gray-400">{index}</td>
+      <td className="px-4 py-2 font-mono">
+        {getMatchSegments(result.address, pattern).map((segment, i) =>
+          segment.matched ? (
+            <span key={i} className="font-semibold text-green-600 dark:text-green-400">
+              {segment.text}
+            </span>
+          ) : (
+            <Fragment key={i}>{segment.text}</Fragment>
+          ),
+        )}
+        {result.path != null && (
+          <div className="text-xs text-gray-500 dark:text-gray-400">{result.path}</div>
+        )}
+      </td>
+      {result.score != null && <td className="px-4 py-2 font-mono">{result.score}</td>}
+      {result.distance != null && <td className="px-4 py-2 font-mono">{result.distance}</td>}
+      {result.deployer != null && (
+        <td className="px-4 py-2 font-mono">
+          {result.deployer}
+          <div className="text-xs text-gray-500 dark:text-gray-400">nonce {result.nonce}</div>
+        </td>
+      )}
+      <td className="px-4 py-2 font-mono break-all">
+        {secret == null ? (
+          publicValue.value
+        ) : revealed && revealPolicy !== 'never' ? (
+          <span className="text-red-600 dark:text-red-400">{secret.value}</span>
+        ) : (
+          <span className="text-gray-400 dark:text-gray-600">
+            ••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••
+          </span>
+        )}
+      </td>
+      <td
+        className="px-4 py-2 text-xs whitespace-nowrap text-gray-500 dark:text-gray-400"
+        title={formatTime(result.createdAt)}
+      >
+        {formatTimeFromNow(result.createdAt)}
+      </td>
+      <td className="space-x-2 px-4 py-2 text-right">
+        <button
+          onClick={() => onCopy(result.address, 'Address')}
+          className="text-xs hover:underline dark:text-gray-300"
+        >
+          Copy Addr
+        </button>
+        {secret == null ? (
+          <button
+            onClick={() => onCopy(publicValue.value, publicValue.label)}
+            className="text-xs hover:underline dark:text-gray-300"
+          >
+            Copy {publicValue.label}
+          </button>
+        ) : revealPolicy === 'never' ? (
+          <span className="text-xs text-gray-400 dark:text-gray-600" title="Use Export instead">
+            Hidden
+          </span>
+        ) : (
+          <button
+            onClick={() => {
+              if (!revealed) {
+                if (
+                  revealPolicy === 'direct' ||
+                  confirm(
+                    `Reveal ${secret.label.toLowerCase()}? Ensure you are in a safe environment.`,
+                  )
+                ) {
+                  setRevealed(true)
+                }
+              } else {
+                onCopy(secret.value, secret.label)
+              }
+            }}
+            className="text-xs text-red-600 hover:underline dark:text-red-400"
+          >
+            {revealed ? `Copy ${secret.shortLabel}` : 'Reveal'}
+          </button>
+        )}
+        {result.calldata != null && (
+          <button
+            onClick={() => onCopy(result.calldata ?? '', 'Calldata')}
+            className="text-xs hover:underline dark:text-gray-300"
+            title="Call to send to the factory to deploy this address"
+          >
+            Copy Calldata
+          </button>
+        )}
+        {secret != null && (
+          <button
+            disabled={onPrint == null}
+            onClick={onPrint}
+            className="text-xs hover:underline disabled:opacity-50 dark:text-gray-300"
+            title={onPrint == null ? 'Acknowledge the export notice first' : 'Print a paper wallet'}
+          >
+            Print
+          </button>
+        )}
+        {secret != null && (
+          <Link
+            href={verifyHref}
+            target="_blank"
+            className="text-xs hover:underline dark:text-gray-300"
+            title="Check an exported key against this address"
+          >
+            Verify
+          </Link>
+        )}
+      </td>
+    </tr>
+  )
+}
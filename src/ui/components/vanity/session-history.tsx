@@ -0,0 +1,177 @@
+'use client'
+
+import { useState } from 'react'
+
+import {
+  useClearSessions,
+  useDeleteSession,
+  usePutSession,
+  useVanitySessions,
+} from '@/lib/hooks/sessions'
+import { formatTimeFromNow } from '@/lib/utils/formatters'
+import { describePattern } from '@/lib/vanity/batch'
+import type { VanitySession } from '@/lib/vanity/session'
+import { Button } from '@/ui/shadcn/button'
+import { Input } from '@/ui/shadcn/input'
+import { modeLabels } from './mode-options'
+
+const describeSession = ({ patterns }: VanitySession) => patterns.map(describePattern).join(', ')
+
+export function SessionHistory({
+  passphrase,
+  onPassphraseChange,
+  currentSessionId,
+  disabled,
+  onOpen,
+  onCloseSession,
+}: {
+  passphrase: string
+  onPassphraseChange: (passphrase: string) => void
+  currentSessionId: string | null
+  disabled: boolean
+  onOpen: (session: VanitySession, resume: boolean) => void
+  onCloseSession: () => void
+}) {
+  const { data: sessions = [] } = useVanitySessions()
+  const { mutate: putSession } = usePutSession()
+  const { mutate: deleteSession } = useDeleteSession()
+  const { mutate: clearSessions } = useClearSessions()
+  const [showHistory, setShowHistory] = useState(false)
+
+  // Left `running` by a tab that went away mid-search
+  const interrupted = sessions.find(s => s.status === 'running' && s.id !== currentSessionId)
+
+  return (
+    <div className="space-y-4 rounded-lg border border-gray-200 p-6 dark:border-gray-800">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center">
+        <div className="flex-1">
+          <label className="text-sm font-medium">Session Passphrase</label>
+          <Input
+            type="password"
+            value={passphrase}
+            disabled={disabled}
+            onChange={e => onPassphraseChange(e.target.value)}
+            placeholder="Leave empty to not save this search"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Progress and found keys are saved in this browser, encrypted with this passphrase, so a
+            reload can resume the search. It is also needed to reopen saved sessions.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setShowHistory(!showHistory)}>
+          {showHistory ? 'Hide' : 'Show'} History ({sessions.length})
+        </Button>
+      </div>
+
+      {interrupted != null && !disabled && (
+        <div className="flex flex-col gap-2 rounded-lg bg-yellow-50 p-4 md:flex-row md:items-center dark:bg-yellow-950/30">
+          <p className="flex-1 text-sm">
+            A search for <span className="font-mono">{describeSession(interrupted)}</span> was
+            interrupted {formatTimeFromNow(interrupted.updatedAt)} after{' '}
+            {interrupted.attempts.toLocaleString()} attempts with {interrupted.resultCount} found.
+            Enter its passphrase above to resume it.
+          </p>
+          <div className="flex space-x-2">
+            <Button
+              size="sm"
+              disabled={passphrase === ''}
+              onClick={() => onOpen(interrupted, true)}
+            >
+              Resume
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => putSession({ ...interrupted, status: 'paused' })}
+            >
+              Dismiss
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {showHistory && (
+        <div className="space-y-2">
+          {sessions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No saved sessions.</p>
+          ) : (
+            <div className="overflow-hidden rounded-lg border border-gray-200 dark:border-gray-800">
+              <table className="w-full text-left text-sm">
+                <thead className="border-b border-gray-200 bg-gray-50 dark:border-gray-800 dark:bg-gray-900">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">Search</th>
+                    <th className="px-4 py-2 font-medium">Mode</th>
+                    <th className="px-4 py-2 font-medium">Attempts</th>
+                    <th className="px-4 py-2 font-medium">Found</th>
+                    <th className="px-4 py-2 font-medium">Updated</th>
+                    <th className="px-4 py-2 text-right font-medium">Action</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                  {sessions.map(session => (
+                    <tr key={session.id}>
+                      <td className="px-4 py-2 font-mono">{describeSession(session)}</td>
+                      <td className="px-4 py-2">{modeLabels[session.options.mode]}</td>
+                      <td className="px-4 py-2 font-mono">{session.attempts.toLocaleString()}</td>
+                      <td className="px-4 py-2 font-mono">{session.resultCount}</td>
+                      <td className="px-4 py-2">
+                        {formatTimeFromNow(session.updatedAt)}
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {session.id === currentSessionId ? 'current' : session.status}
+                        </div>
+                      </td>
+                      <td className="space-x-2 px-4 py-2 text-right">
+                        {session.status !== 'finished' && (
+                          <button
+                            disabled={disabled || passphrase === ''}
+                            onClick={() => onOpen(session, true)}
+                            className="text-xs hover:underline disabled:opacity-50 dark:text-gray-300"
+                          >
+                            Resume
+                          </button>
+                        )}
+                        <button
+                          disabled={disabled || passphrase === ''}
+                          onClick={() => onOpen(session, false)}
+                          className="text-xs hover:underline disabled:opacity-50 dark:text-gray-300"
+                        >
+                          Open
+                        </button>
+                        <button
+                          disabled={session.id === currentSessionId}
+                          onClick={() => {
+                            if (confirm('Delete this session and its encrypted keys?')) {
+                              deleteSession(session.id)
+                            }
+                          }}
+                          className="text-xs text-red-600 hover:underline disabled:opacity-50 dark:text-red-400"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {sessions.length > 0 && (
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={disabled}
+              onClick={() => {
+                if (confirm('Wipe every saved session? Keys you have not exported are lost.')) {
+                  onCloseSession()
+                  clearSessions()
+                }
+              }}
+            >
+              Wipe All Sessions
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
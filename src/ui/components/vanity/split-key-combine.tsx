@@ -0,0 +1,211 @@
+'use client'
+
+import type { Hex } from 'viem'
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { isAddress, isAddressEqual } from 'viem'
+import { generatePrivateKey, privateKeyToAddress } from 'viem/accounts'
+import { z } from 'zod'
+
+import { combineSplitKey, getPublicKey, isPrivateKey } from '@/lib/vanity/split-key'
+import { Button } from '@/ui/shadcn/button'
+import { Input } from '@/ui/shadcn/input'
+
+const combineSchema = z.object({
+  secret: z.string().refine(value => isPrivateKey(value), 'Must be a 32-byte hex private key'),
+  partialKey: z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'Must be a 32-byte hex partial key'),
+  expectedAddress: z
+    .string()
+    .refine(value => value === '' || isAddress(value, { strict: false }), 'Must be an address'),
+})
+
+type CombineInput = {
+  secret: string
+  partialKey: string
+  expectedAddress: string
+}
+
+const getCombineErrors = (input: CombineInput) => {
+  const result = combineSchema.safeParse(input)
+  const newErrors: Record<string, string> = {}
+
+  if (!result.success) {
+    result.error.issues.forEach(err => {
+      if (err.path[0] !== undefined) {
+        newErrors[err.path[0] as string] = err.message
+      }
+    })
+  }
+
+  return newErrors
+}
+
+export function SplitKeyCombine() {
+  const [input, setInput] = useState<CombineInput>({
+    secret: '',
+    partialKey: '',
+    expectedAddress: '',
+  })
+  const [revealed, setRevealed] = useState(false)
+
+  const errors = useMemo(() => getCombineErrors(input), [input])
+
+  const combined = useMemo(() => {
+    if (errors.secret !== undefined || errors.partialKey !== undefined) return null
+    const privateKey = combineSplitKey(input.secret as Hex, input.partialKey as Hex)
+    return { privateKey, address: privateKeyToAddress(privateKey) }
+  }, [errors, input])
+
+  const publicKey = useMemo(
+    () => (errors.secret === undefined ? getPublicKey(input.secret as Hex) : null),
+    [errors, input],
+  )
+
+  const matchesExpected =
+    combined != null && input.expectedAddress !== '' && errors.expectedAddress === undefined
+      ? isAddressEqual(combined.address, input.expectedAddress as Hex)
+      : null
+
+  const update = (patch: Partial<CombineInput>) => {
+    setInput(prev => ({ ...prev, ...patch }))
+    setRevealed(false)
+  }
+
+  const copyToClipboard = (text: string, label: string) => {
+    navigator.clipboard.writeText(text)
+    toast.success(`Copied ${label}`)
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Key pair */}
+      <div className="space-y-4 rounded-lg border border-gray-200 p-6 dark:border-gray-800">
+        <div>
+          <h3 className="text-lg font-medium">1. Your Key Pair</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Keep the secret to yourself and give only the public key to whoever runs the search, in
+            the &quot;Split Key&quot; mode of the generator.
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Your Secret Key</label>
+          <div className="flex space-x-2">
+            <Input
+              type="password"
+              value={input.secret}
+              onChange={e => update({ secret: e.target.value.trim() })}
+              placeholder="0x…"
+              className={input.secret !== '' && errors.secret !== undefined ? 'border-red-500' : ''}
+            />
+            <Button variant="outline" onClick={() => update({ secret: generatePrivateKey() })}>
+              Generate
+            </Button>
+          </div>
+          {input.secret !== '' && errors.secret !== undefined && (
+            <p className="text-xs text-red-500">{errors.secret}</p>
+          )}
+        </div>
+
+        {publicKey != null && (
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Public Key to Share</label>
+            <div className="flex items-start space-x-2">
+              <p className="flex-1 font-mono text-xs break-all">{publicKey}</p>
+              <button
+                onClick={() => copyToClipboard(publicKey, 'Public Key')}
+                className="text-xs hover:underline dark:text-gray-300"
+              >
+                Copy
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Combine */}
+      <div className="space-y-4 rounded-lg border border-gray-200 p-6 dark:border-gray-800">
+        <div>
+          <h3 className="text-lg font-medium">2. Combine</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Adds the partial key you received to your secret. Everything runs locally.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Partial Key</label>
+            <Input
+              value={input.partialKey}
+              onChange={e => update({ partialKey: e.target.value.trim() })}
+              placeholder="0x…"
+              className={
+                input.partialKey !== '' && errors.partialKey !== undefined ? 'border-red-500' : ''
+              }
+            />
+            {input.partialKey !== '' && errors.partialKey !== undefined && (
+              <p className="text-xs text-red-500">{errors.partialKey}</p>
+            )}
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Expected Address (Optional)</label>
+            <Input
+              value={input.expectedAddress}
+              onChange={e => update({ expectedAddress: e.target.value.trim() })}
+              placeholder="0x…"
+              className={errors.expectedAddress !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.expectedAddress !== undefined && (
+              <p className="text-xs text-red-500">{errors.expectedAddress}</p>
+            )}
+          </div>
+        </div>
+
+        {combined != null && (
+          <div className="space-y-2 rounded-lg bg-gray-50 p-4 dark:bg-gray-900">
+            <div>
+              <div className="text-xs text-gray-500 uppercase dark:text-gray-400">Address</div>
+              <div className="font-mono">{combined.address}</div>
+              {matchesExpected === true && (
+                <p className="text-xs text-green-600">Matches the expected address.</p>
+              )}
+              {matchesExpected === false && (
+                <p className="text-xs text-red-500">
+                  Does not match the expected address: check the secret and the partial key.
+                </p>
+              )}
+            </div>
+            <div>
+              <div className="text-xs text-gray-500 uppercase dark:text-gray-400">Private Key</div>
+              <div className="flex items-start space-x-2">
+                <div className="flex-1 font-mono break-all">
+                  {revealed ? (
+                    <span className="text-red-600 dark:text-red-400">{combined.privateKey}</span>
+                  ) : (
+                    <span className="text-gray-400 dark:text-gray-600">
+                      ••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••
+                    </span>
+                  )}
+                </div>
+                <button
+                  onClick={() => {
+                    if (!revealed) {
+                      if (confirm('Reveal private key? Ensure you are in a safe environment.')) {
+                        setRevealed(true)
+                      }
+                    } else {
+                      copyToClipboard(combined.privateKey, 'Private Key')
+                    }
+                  }}
+                  className="text-xs text-red-600 hover:underline dark:text-red-400"
+                >
+                  {revealed ? 'Copy PK' : 'Reveal'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
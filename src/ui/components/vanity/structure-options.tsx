@@ -0,0 +1,83 @@
+'use client'
+
+import {
+  charsetLabels,
+  getStructureProbability,
+  hasStructureRules,
+  maxAnchoredLength,
+} from '@/lib/vanity/structure'
+import type { StructureRules } from '@/lib/vanity/types'
+import { Input } from '@/ui/shadcn/input'
+
+const lengthFields = [
+  ['run', 'Repeated Run', 'Minimum run of one character anywhere, e.g. 0000000'],
+  ['palindrome', 'Palindrome', 'Length of a palindromic prefix or suffix, e.g. 0xabba…'],
+  ['mirror', 'Mirror', 'Prefix repeated as the suffix, e.g. 0xabcd…abcd'],
+] as const
+
+/** "Looks nice" rules on the shape of the address, ANDed with the character rules. */
+export function StructureOptions({
+  rules,
+  error,
+  disabled,
+  onChange,
+}: {
+  rules: StructureRules
+  error?: string
+  disabled: boolean
+  onChange: (rules: StructureRules) => void
+}) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Structure (0 = off)</label>
+      <div className="grid grid-cols-4 gap-2">
+        {lengthFields.map(([field, label, title]) => (
+          <div key={field}>
+            <label className="text-xs" title={title}>
+              {label}
+            </label>
+            <Input
+              type="number"
+              min={0}
+              max={field === 'run' ? 40 : maxAnchoredLength}
+              value={rules[field]}
+              disabled={disabled}
+              onChange={e => {
+                const val = parseInt(e.target.value)
+                onChange({ ...rules, [field]: isNaN(val) ? 0 : val })
+              }}
+              className={error !== undefined ? 'border-red-500' : ''}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="text-xs">Characters</label>
+          <select
+            value={rules.charset}
+            disabled={disabled}
+            onChange={e =>
+              onChange({ ...rules, charset: e.target.value as StructureRules['charset'] })
+            }
+            className="h-9 w-full rounded border border-gray-300 px-2 text-sm dark:border-gray-700 dark:bg-gray-900"
+          >
+            {Object.entries(charsetLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {error !== undefined ? (
+        <p className="text-xs text-red-500">{error}</p>
+      ) : (
+        hasStructureRules(rules) && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Structure difficulty: 1 in{' '}
+            {Math.round(1 / getStructureProbability(rules)).toLocaleString()}
+          </p>
+        )
+      )}
+    </div>
+  )
+}
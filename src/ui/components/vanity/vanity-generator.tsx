@@ -1,13 +1,48 @@
 'use client'
 
+import { useAtom, useAtomValue, useSetAtom } from 'jotai'
+import { RESET } from 'jotai/utils'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { toast } from 'sonner'
 import { z } from 'zod'
 
-import { exportToCSV, exportToJSON } from '@/lib/vanity/export'
-import type { VanityConfig, VanityResult, WorkerResponse } from '@/lib/vanity/types'
+import { InvalidPatternError, SessionPassphraseError, SessionSaveError } from '@/lib/errors/vanity'
+import { useCurrentVanitySession } from '@/lib/hooks/sessions'
+import { maxThreads, useHardwareConcurrency, useVanityWorkerPool } from '@/lib/hooks/vanity'
+import { lastErrorAtom } from '@/lib/states/errors'
+import {
+  restoreLastConfigAtom,
+  vanityOptionsAtom,
+  vanityPatternsAtom,
+  vanityPreferencesAtom,
+  vanityShareUrlAtom,
+  vanityThreadsAtom,
+} from '@/lib/states/vanity'
+import { store } from '@/lib/utils/jotai'
+import { describePattern, groupByPattern } from '@/lib/vanity/batch'
+import { defaultVanityConfig, defaultVanityOptions } from '@/lib/vanity/defaults'
+import {
+  countCaseLetters,
+  getExpectedAttempts,
+  getMatchProbability,
+  getPrefixSuffixProbability,
+  hasCaseLetters,
+} from '@/lib/vanity/estimate'
+import { toHexWord } from '@/lib/vanity/hex-words'
+import { getLookAlikeProbability } from '@/lib/vanity/look-alike'
+import { compilePattern, getMaskProbability } from '@/lib/vanity/pattern'
+import { getScoreProbability } from '@/lib/vanity/score'
+import type { VanitySession, VanitySessionStatus } from '@/lib/vanity/session'
+import { maxAnchoredLength } from '@/lib/vanity/structure'
+import type { VanityConfig, VanityOptions, VanityResult } from '@/lib/vanity/types'
 import { Button } from '@/ui/shadcn/button'
 import { Input } from '@/ui/shadcn/input'
+import { EstimatePanel } from './estimate-panel'
+import { HexWordHelper } from './hex-word-helper'
+import { getOptionsErrors, VanityModeOptions } from './mode-options'
+import { ResultsTable } from './results-table'
+import { SessionHistory } from './session-history'
+import { StructureOptions } from './structure-options'
 
 // Validation Schema
 const hexRegex = /^[0-9a-fA-F]*$/
@@ -28,6 +63,22 @@ const configSchema = z
     includes: z.string().regex(hexListRegex, 'Must be hex characters separated by comma/space'),
     caseSensitive: z.boolean(),
     includesMode: z.enum(['all', 'any']),
+    pattern: z.string().max(200, 'Max length is 200'),
+    dictionary: z.enum(['off', 'start', 'end', 'either']),
+    structure: z.object({
+      run: z.number().int().min(0).max(40, 'Max run is 40'),
+      palindrome: z
+        .number()
+        .int()
+        .min(0)
+        .max(maxAnchoredLength, `Max palindrome length is ${maxAnchoredLength}`),
+      mirror: z
+        .number()
+        .int()
+        .min(0)
+        .max(maxAnchoredLength, `Max mirror length is ${maxAnchoredLength}`),
+      charset: z.enum(['any', 'digits', 'letters']),
+    }),
   })
   .refine(
     data => {
@@ -51,6 +102,30 @@ const getValidationErrors = (cfg: VanityConfig) => {
     })
   }
 
+  // Only a-f have a checksum case: without any, case sensitivity would silently do nothing
+  if (cfg.caseSensitive && !hasCaseLetters(cfg)) {
+    newErrors['caseSensitive'] =
+      'Needs a letter (a-f) in the prefix, suffix, includes or pattern: digits have no case'
+  }
+
+  // Words like `coffee` are usually one leetspeak substitution away from hex
+  for (const field of ['startsWith', 'endsWith'] as const) {
+    const hexWord = hexRegex.test(cfg[field]) ? null : toHexWord(cfg[field])
+    if (hexWord != null) {
+      newErrors[field] = `Must be hex characters (0-9, a-f), try "${hexWord}"`
+    }
+  }
+
+  // Surface pattern syntax errors from the same parser the workers compile with
+  if (newErrors['pattern'] === undefined) {
+    try {
+      compilePattern(cfg.pattern, cfg.caseSensitive)
+    } catch (error) {
+      if (!(error instanceof InvalidPatternError)) throw error
+      newErrors['pattern'] = error.message
+    }
+  }
+
   // Custom check for includes token length
   if (cfg.includes !== '') {
     const tokens = cfg.includes.split(/[, ]+/).filter(Boolean)
@@ -62,133 +137,307 @@ const getValidationErrors = (cfg: VanityConfig) => {
   return newErrors
 }
 
+const maxPatterns = 16
+
+const dictionaryLabels: Record<VanityConfig['dictionary'], string> = {
+  off: 'Off',
+  start: 'At the start',
+  end: 'At the end',
+  either: 'At either end',
+}
+
 export function VanityGenerator() {
-  // State
-  const [config, setConfig] = useState<VanityConfig>({
-    count: 1,
-    startsWith: '',
-    endsWith: '',
-    prefixSuffixMode: 'and',
-    includes: '',
-    caseSensitive: false,
-    includesMode: 'all',
-  })
+  // State: a batch of patterns, searched together; the form edits the active one. Both live in the
+  // URL hash, so a link pre-fills them
+  const [patterns, setPatterns] = useAtom(vanityPatternsAtom)
+  const [selectedIndex, setActiveIndex] = useState(0)
+  // The hash can drop patterns underneath the selection
+  const activeIndex = Math.min(selectedIndex, patterns.length - 1)
+  const config = patterns[activeIndex]
+
+  const [options, setOptions] = useAtom(vanityOptionsAtom)
+  const shareUrl = useAtomValue(vanityShareUrlAtom)
+  const setPreferences = useSetAtom(vanityPreferencesAtom)
+
+  const patternErrors = useMemo(() => patterns.map(getValidationErrors), [patterns])
+  const errors = useMemo(
+    () => ({ ...patternErrors[activeIndex], ...getOptionsErrors(options) }),
+    [patternErrors, activeIndex, options],
+  )
+  const hasErrors =
+    Object.keys(errors).length > 0 || patternErrors.some(e => Object.keys(e).length > 0)
+  const totalCount = patterns.reduce((sum, pattern) => sum + pattern.count, 0)
 
-  const errors = useMemo(() => getValidationErrors(config), [config])
+  const hardwareConcurrency = useHardwareConcurrency()
+  // `null` follows the detected core count until the user picks a value
+  const [threadsInput, setThreadsInput] = useAtom(vanityThreadsAtom)
+  const threads = threadsInput ?? hardwareConcurrency
 
   const [isRunning, setIsRunning] = useState(false)
+  // Deriving the session key takes a moment before the run starts; a second click must not race it
+  const [isStarting, setIsStarting] = useState(false)
+  // Workers search the patterns they were started with, so the form stays as they are until stopped
+  const isLocked = isRunning || isStarting
+  const [isPaused, setIsPaused] = useState(false)
   const [results, setResults] = useState<VanityResult[]>([])
-  const [attempts, setAttempts] = useState(0)
+  const [workerAttempts, setWorkerAttempts] = useState<number[]>([])
+  const runAttempts = useMemo(() => workerAttempts.reduce((sum, n) => sum + n, 0), [workerAttempts])
+  // Attempts and time of earlier runs of a resumed session
+  const [attemptsOffset, setAttemptsOffset] = useState(0)
+  const [elapsedOffset, setElapsedOffset] = useState(0)
+  const attempts = attemptsOffset + runAttempts
   const [startTime, setStartTime] = useState<number | null>(null)
   const [speed, setSpeed] = useState(0)
-  const [exportConfirmed, setExportConfirmed] = useState(false)
 
-  const workerRef = useRef<Worker | null>(null)
-  const configRef = useRef(config)
+  const session = useCurrentVanitySession()
+  const [passphrase, setPassphrase] = useState('')
+  const [sessionStatus, setSessionStatus] = useState<VanitySessionStatus>('paused')
 
-  useEffect(() => {
-    configRef.current = config
-  }, [config])
+  // Needs the preferences loaded, which the atoms above did on mount
+  const restoreLastConfig = useSetAtom(restoreLastConfigAtom)
+  useEffect(() => restoreLastConfig(), [restoreLastConfig])
+
+  const pauseClock = useCallback(() => {
+    if (startTime != null) {
+      const stoppedAt = Date.now()
+      setElapsedOffset(prev => prev + stoppedAt - startTime)
+    }
+    setStartTime(null)
+  }, [startTime])
+
+  const pool = useVanityWorkerPool({
+    onProgress: (workerIndex, workerBatch) => {
+      setWorkerAttempts(prev => {
+        const next = [...prev]
+        next[workerIndex] = (next[workerIndex] ?? 0) + workerBatch
+        return next
+      })
+    },
+    onFound: result => {
+      if (options.goal === 'score') {
+        // Live leaderboard: best first, ties keep the earlier find
+        setResults(prev =>
+          [...prev, result]
+            .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+            .slice(0, options.score.top),
+        )
+      } else {
+        setResults(prev => [...prev, result])
+      }
+    },
+    onFinished: () => {
+      setIsRunning(false)
+      setIsPaused(false)
+      setSessionStatus('finished')
+      pauseClock()
+      toast.success(
+        options.goal === 'score'
+          ? `Reached target score ${options.score.target}!`
+          : `Generated ${totalCount} addresses!`,
+      )
+    },
+    onError: error => {
+      setIsRunning(false)
+      setIsPaused(false)
+      setSessionStatus('paused')
+      pauseClock()
+      store.set(lastErrorAtom, error)
+    },
+  })
 
   const normalizeInput = (val: string) => {
     return val.trim().replace(/^0x/i, '')
   }
 
-  const handleInputChange = (field: keyof VanityConfig, value: string | number | boolean) => {
+  const handleInputChange = (
+    field: keyof VanityConfig,
+    value: VanityConfig[keyof VanityConfig],
+  ) => {
     let newValue = value
     if ((field === 'startsWith' || field === 'endsWith') && typeof value === 'string') {
       newValue = normalizeInput(value)
     }
-    setConfig(prev => ({ ...prev, [field]: newValue }))
+    setPatterns(prev => prev.map((p, i) => (i === activeIndex ? { ...p, [field]: newValue } : p)))
+  }
+
+  const addPattern = () => {
+    setPatterns(prev => [...prev, defaultVanityConfig])
+    setActiveIndex(patterns.length)
+  }
+
+  const removePattern = (index: number) => {
+    setPatterns(prev => prev.filter((_, i) => i !== index))
+    setActiveIndex(prev => Math.max(prev >= index ? prev - 1 : prev, 0))
   }
 
+  const { stop: stopPool } = pool
   const stop = useCallback(() => {
     setIsRunning(false)
-    workerRef.current?.postMessage({ type: 'stop' })
-  }, [])
-
-  // Initialize worker
+    setIsPaused(false)
+    stopPool()
+    setSessionStatus('paused')
+    pauseClock()
+  }, [stopPool, pauseClock])
+
+  // Persist the session whenever its state changes, and periodically for the attempt count
+  const saveSessionRef = useRef(() => {})
   useEffect(() => {
-    workerRef.current = new Worker(new URL('@/workers/vanity.worker.ts', import.meta.url))
-
-    workerRef.current.onmessage = (e: MessageEvent<WorkerResponse>) => {
-      const { type, result, attempts: workerAttempts } = e.data
-
-      if (type === 'found' && result !== undefined) {
-        setResults(prev => {
-          const newResults = [...prev, result]
-          if (newResults.length >= configRef.current.count) {
-            // Stop worker immediately
-            workerRef.current?.postMessage({ type: 'stop' })
-            setIsRunning(false)
-            toast.success(`Generated ${newResults.length} addresses!`)
-          }
-          return newResults
+    saveSessionRef.current = () => {
+      session
+        .save({
+          status: sessionStatus,
+          patterns,
+          options,
+          attempts,
+          elapsedMs: elapsedOffset + (startTime != null ? Date.now() - startTime : 0),
+          results,
+        })
+        ?.catch((error: unknown) => {
+          store.set(
+            lastErrorAtom,
+            new SessionSaveError(undefined, { cause: error instanceof Error ? error : undefined }),
+          )
         })
-      } else if (type === 'progress' && workerAttempts !== undefined) {
-        setAttempts(prev => prev + workerAttempts)
-      }
     }
+  })
+  useEffect(() => {
+    saveSessionRef.current()
+  }, [session.sessionId, sessionStatus, results])
+  useEffect(() => {
+    if (sessionStatus !== 'running') return
+    const interval = setInterval(() => saveSessionRef.current(), 5000)
+    return () => clearInterval(interval)
+  }, [sessionStatus])
 
-    return () => {
-      workerRef.current?.terminate()
-    }
-  }, [])
+  const pause = () => {
+    pool.pause()
+    setIsPaused(true)
+    setSpeed(0)
+    setSessionStatus('paused')
+    pauseClock()
+  }
 
-  // Speed calculation
+  const resume = () => {
+    pool.resume()
+    setIsPaused(false)
+    setSessionStatus('running')
+    setStartTime(Date.now())
+  }
+
+  // Speed over the last second, so pauses and thread changes show up right away
+  const runAttemptsRef = useRef(runAttempts)
+  useEffect(() => {
+    runAttemptsRef.current = runAttempts
+  })
   useEffect(() => {
-    if (!isRunning || startTime == null) return
+    if (!isRunning || isPaused) return
 
+    let last = { attempts: runAttemptsRef.current, time: Date.now() }
     const interval = setInterval(() => {
-      const now = Date.now()
-      const elapsed = (now - startTime) / 1000
-      if (elapsed > 0) {
-        setSpeed(Math.floor(attempts / elapsed))
-      }
+      const now = { attempts: runAttemptsRef.current, time: Date.now() }
+      setSpeed(Math.floor(((now.attempts - last.attempts) * 1000) / (now.time - last.time)))
+      last = now
     }, 1000)
 
     return () => clearInterval(interval)
-  }, [isRunning, startTime, attempts])
+  }, [isRunning, isPaused])
+
+  const startPool = (
+    pats: VanityConfig[],
+    opts: VanityOptions,
+    previousResults: VanityResult[] = [],
+  ) => {
+    setResults(previousResults)
+    setWorkerAttempts(Array.from({ length: threads }, () => 0))
+    setStartTime(Date.now())
+    setSpeed(0)
+    setIsRunning(true)
+    setIsPaused(false)
+    setSessionStatus('running')
+
+    // A resumed session only needs the matches it is still missing
+    const found = groupByPattern(previousResults, pats).map(group => group.results.length)
+    pool.start(pats, opts, threads, opts.goal === 'score' ? [] : found)
+  }
 
-  const start = () => {
-    if (isRunning) return
+  const start = async () => {
+    if (isRunning || isStarting) return
 
-    if (Object.keys(errors).length > 0) {
+    if (hasErrors) {
       toast.error('Please fix validation errors')
       return
     }
 
-    if (config.startsWith === '' && config.endsWith === '' && config.includes === '') {
-      // Optional: allow random generation if user wants?
+    setAttemptsOffset(0)
+    setElapsedOffset(0)
+    setIsStarting(true)
+    try {
+      if (passphrase !== '') {
+        await session.begin(passphrase)
+      } else {
+        session.close()
+      }
+    } finally {
+      setIsStarting(false)
     }
+    startPool(patterns, options)
+  }
 
-    setResults([])
-    setAttempts(0)
-    setStartTime(Date.now())
-    setSpeed(0)
-    setIsRunning(true)
+  const openSession = async (saved: VanitySession, resume: boolean) => {
+    // Decrypt first: a wrong passphrase leaves the running search alone
+    let unlocked
+    try {
+      unlocked = await session.unlock(saved, passphrase)
+    } catch (error) {
+      if (error instanceof SessionPassphraseError) {
+        toast.error('Wrong passphrase for this session')
+      } else if (error instanceof Error) {
+        store.set(lastErrorAtom, error)
+      }
+      return
+    }
 
-    workerRef.current?.postMessage({
-      type: 'start',
-      config,
-    })
+    stop()
+    session.open(saved, unlocked.key)
+    const savedResults = unlocked.results
+    setPatterns(saved.patterns)
+    setActiveIndex(0)
+    setOptions(saved.options)
+    setAttemptsOffset(saved.attempts)
+    setElapsedOffset(saved.elapsedMs)
+    setWorkerAttempts([])
+
+    const isDone =
+      saved.options.goal === 'match' &&
+      groupByPattern(savedResults, saved.patterns).every(
+        group => group.results.length >= group.pattern.count,
+      )
+    if (resume && !isDone) {
+      startPool(saved.patterns, saved.options, savedResults)
+    } else {
+      setResults(savedResults)
+      setSessionStatus(isDone ? 'finished' : 'paused')
+    }
   }
 
   const reset = () => {
     stop()
+    session.close()
     setResults([])
-    setAttempts(0)
+    setWorkerAttempts([])
+    setAttemptsOffset(0)
+    setElapsedOffset(0)
     setSpeed(0)
     setStartTime(null)
-    setConfig({
-      count: 1,
-      startsWith: '',
-      endsWith: '',
-      prefixSuffixMode: 'and',
-      includes: '',
-      caseSensitive: false,
-      includesMode: 'all',
-    })
+    setOptions(defaultVanityOptions)
+    setPatterns([defaultVanityConfig])
+    setActiveIndex(0)
+  }
+
+  const restoreDefaults = () => {
+    reset()
+    // After the reset, which records its config as the last one
+    setPreferences(RESET)
   }
 
   const copyToClipboard = (text: string, label: string) => {
@@ -196,29 +445,100 @@ export function VanityGenerator() {
     toast.success(`Copied ${label}`)
   }
 
-  let difficulty = 0
-  if (config.prefixSuffixMode === 'and') {
-    difficulty = Math.pow(16, config.startsWith.length + config.endsWith.length)
-  } else {
-    const pA = config.startsWith !== '' ? Math.pow(16, -config.startsWith.length) : 0
-    const pB = config.endsWith !== '' ? Math.pow(16, -config.endsWith.length) : 0
-    // If both empty, prob is 1 (always match empty string)
-    if (config.startsWith === '' && config.endsWith === '') {
-      difficulty = 1
-    } else {
-      // Assuming independent events (start and end overlap is negligible for small lengths, but technically exists)
-      // For simplicity: P(A or B) approx P(A) + P(B) for disjoint, but here they are not disjoint.
-      // Exact: P(A) + P(B) - P(A and B)
-      const pBoth = Math.pow(16, -(config.startsWith.length + config.endsWith.length))
-      const prob = pA + pB - pBoth
-      difficulty = prob > 0 ? 1 / prob : 0
-    }
-  }
+  const caseLetters = countCaseLetters(config.startsWith) + countCaseLetters(config.endsWith)
+  const difficulty = 1 / getPrefixSuffixProbability(config)
+
+  // Scoring accepts any address that matches one of the patterns and reaches the target
+  const groups = groupByPattern(results, patterns)
+  const lookAlikeProbability =
+    options.goal === 'lookAlike' ? getLookAlikeProbability(options.lookAlike) : 1
+  const estimate = hasErrors
+    ? null
+    : options.goal === 'score'
+      ? options.score.target > 0
+        ? {
+            probability:
+              (1 - patterns.reduce((none, p) => none * (1 - getMatchProbability(p)), 1)) *
+              getScoreProbability(options.score.metric, options.score.target),
+            remaining: 1,
+          }
+        : null
+      : // Patterns are searched side by side, so the hardest remaining quota sets the pace
+        groups
+          .map(group => ({
+            probability: getMatchProbability(group.pattern) * lookAlikeProbability,
+            remaining: Math.max(group.pattern.count - group.results.length, 0),
+          }))
+          .reduce((hardest, next) =>
+            getExpectedAttempts(next.probability, next.remaining) >
+            getExpectedAttempts(hardest.probability, hardest.remaining)
+              ? next
+              : hardest,
+          )
+
+  const patternDifficulty =
+    config.pattern !== '' && errors.pattern === undefined
+      ? 1 / getMaskProbability(config.pattern, config.caseSensitive)
+      : null
 
   return (
     <div className="space-y-8">
+      <SessionHistory
+        passphrase={passphrase}
+        onPassphraseChange={setPassphrase}
+        currentSessionId={session.sessionId}
+        disabled={isLocked}
+        onOpen={(saved, resume) => void openSession(saved, resume)}
+        onCloseSession={session.close}
+      />
+
       {/* Config Form */}
       <div className="grid grid-cols-1 gap-6 rounded-lg border border-gray-200 p-6 md:grid-cols-2 dark:border-gray-800">
+        <div className="md:col-span-2">
+          <VanityModeOptions
+            options={options}
+            errors={errors}
+            disabled={isLocked}
+            onChange={setOptions}
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2 md:col-span-2">
+          {patterns.map((pattern, i) => (
+            <Button
+              key={i}
+              size="sm"
+              variant={i === activeIndex ? 'default' : 'outline'}
+              className={Object.keys(patternErrors[i]).length > 0 ? 'border-red-500' : ''}
+              title={describePattern(pattern)}
+              onClick={() => setActiveIndex(i)}
+            >
+              Pattern {i + 1}
+            </Button>
+          ))}
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isLocked || patterns.length >= maxPatterns}
+            onClick={addPattern}
+          >
+            + Add Pattern
+          </Button>
+          {patterns.length > 1 && (
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={isLocked}
+              onClick={() => removePattern(activeIndex)}
+            >
+              Remove Pattern {activeIndex + 1}
+            </Button>
+          )}
+          {patterns.length > 1 && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              Every key is checked against all patterns; each stops at its own count.
+            </span>
+          )}
+        </div>
         <div className="space-y-4">
           <div>
             <label className="text-sm font-medium">Count</label>
@@ -227,6 +547,10 @@ export function VanityGenerator() {
               min={1}
               max={100}
               value={config.count}
+              disabled={isLocked || options.goal === 'score'}
+              title={
+                options.goal === 'score' ? 'Ranking runs until stopped or the target score' : ''
+              }
               onChange={e => {
                 const val = parseInt(e.target.value)
                 handleInputChange('count', isNaN(val) ? 0 : val)
@@ -239,6 +563,7 @@ export function VanityGenerator() {
             <label className="text-sm font-medium">Starts With</label>
             <Input
               value={config.startsWith}
+              disabled={isLocked}
               onChange={e => handleInputChange('startsWith', e.target.value)}
               placeholder="e.g. dead"
               className={errors.startsWith !== undefined ? 'border-red-500' : ''}
@@ -251,6 +576,7 @@ export function VanityGenerator() {
             <label className="text-sm font-medium">Ends With</label>
             <Input
               value={config.endsWith}
+              disabled={isLocked}
               onChange={e => handleInputChange('endsWith', e.target.value)}
               placeholder="e.g. beef"
               className={errors.endsWith !== undefined ? 'border-red-500' : ''}
@@ -270,6 +596,7 @@ export function VanityGenerator() {
                 </label>
                 <select
                   value={config.prefixSuffixMode}
+                  disabled={isLocked}
                   onChange={e => handleInputChange('prefixSuffixMode', e.target.value)}
                   className="rounded border px-1 text-xs dark:border-gray-700 dark:bg-gray-900"
                 >
@@ -279,12 +606,38 @@ export function VanityGenerator() {
               </div>
             </div>
           )}
+          <HexWordHelper disabled={isLocked} onUse={handleInputChange} />
         </div>
         <div className="space-y-4">
+          <div>
+            <label
+              className="text-sm font-medium"
+              title="Matched from the start of the address: ? any character, [0-3] class, (.)\1{5} repetition, ... skips to a part matched at the end"
+            >
+              Pattern (mask / regex)
+            </label>
+            <Input
+              value={config.pattern}
+              disabled={isLocked}
+              onChange={e => handleInputChange('pattern', e.target.value.trim())}
+              placeholder="e.g. 0x????dead????...??beef"
+              className={errors.pattern !== undefined ? 'border-red-500' : ''}
+            />
+            {errors.pattern !== undefined ? (
+              <p className="text-xs text-red-500">{errors.pattern}</p>
+            ) : (
+              patternDifficulty != null && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Pattern difficulty: 1 in {Math.round(patternDifficulty).toLocaleString()}
+                </p>
+              )
+            )}
+          </div>
           <div>
             <label className="text-sm font-medium">Includes (comma separated)</label>
             <Input
               value={config.includes}
+              disabled={isLocked}
               onChange={e => handleInputChange('includes', e.target.value)}
               placeholder="e.g. cafe, babe"
               className={errors.includes !== undefined ? 'border-red-500' : ''}
@@ -303,17 +656,33 @@ export function VanityGenerator() {
               type="checkbox"
               id="caseSensitive"
               checked={config.caseSensitive}
+              disabled={isLocked}
               onChange={e => handleInputChange('caseSensitive', e.target.checked)}
               className="h-4 w-4 rounded border-gray-300 dark:border-gray-700 dark:bg-gray-900"
             />
-            <label htmlFor="caseSensitive" className="text-sm">
-              Case Sensitive
+            <label
+              htmlFor="caseSensitive"
+              className="text-sm"
+              title="Letters must match the EIP-55 checksum casing, e.g. 'A' only matches an uppercase A. Any of a-f can appear in either case"
+            >
+              Case Sensitive (EIP-55 checksum)
             </label>
           </div>
+          {errors.caseSensitive !== undefined ? (
+            <p className="text-xs text-red-500">{errors.caseSensitive}</p>
+          ) : (
+            config.caseSensitive &&
+            caseLetters > 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {`${caseLetters} prefix/suffix letter(s) must match checksum case: ${Math.pow(2, caseLetters).toLocaleString()}x harder.`}
+              </p>
+            )
+          )}
           <div className="flex items-center space-x-4">
             <label className="text-sm">Includes Logic:</label>
             <select
               value={config.includesMode}
+              disabled={isLocked}
               onChange={e => handleInputChange('includesMode', e.target.value)}
               className="rounded border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-900"
             >
@@ -321,6 +690,51 @@ export function VanityGenerator() {
               <option value="any">Any (OR)</option>
             </select>
           </div>
+          <StructureOptions
+            rules={config.structure}
+            error={errors.structure}
+            disabled={isLocked}
+            onChange={structure => handleInputChange('structure', structure)}
+          />
+          <div className="flex items-center space-x-4">
+            <label className="text-sm" title="Bundled words like dead, c0ffee or 5afe">
+              Hex Word Dictionary:
+            </label>
+            <select
+              value={config.dictionary}
+              disabled={isLocked}
+              onChange={e => handleInputChange('dictionary', e.target.value)}
+              className="rounded border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-900"
+            >
+              {Object.entries(dictionaryLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center space-x-4">
+            <label className="text-sm" title="Number of parallel web workers">
+              Threads:
+            </label>
+            <Input
+              type="number"
+              min={1}
+              max={maxThreads}
+              value={threads}
+              onChange={e => {
+                const val = parseInt(e.target.value)
+                const next = isNaN(val) ? 1 : Math.min(Math.max(val, 1), maxThreads)
+                setThreadsInput(next)
+                // Running jobs take the new budget right away
+                if (isRunning) pool.configure(next)
+              }}
+              className="w-24"
+            />
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {hardwareConcurrency} cores detected
+            </span>
+          </div>
         </div>
       </div>
 
@@ -330,152 +744,85 @@ export function VanityGenerator() {
           <Button
             onClick={start}
             className="w-32"
-            disabled={Object.keys(errors).length > 0 || config.count < 1}
+            disabled={isStarting || hasErrors || totalCount < 1}
           >
-            Start
+            {isStarting ? 'Starting…' : 'Start'}
           </Button>
         ) : (
-          <Button onClick={stop} variant="destructive" className="w-32">
-            Stop
-          </Button>
+          <>
+            <Button onClick={stop} variant="destructive" className="w-32">
+              Stop
+            </Button>
+            <Button onClick={isPaused ? resume : pause} variant="outline" className="w-32">
+              {isPaused ? 'Resume' : 'Pause'}
+            </Button>
+          </>
         )}
         <Button onClick={reset} variant="outline">
           Reset
         </Button>
+        <Button
+          onClick={restoreDefaults}
+          variant="outline"
+          title="Also forgets the saved threads, export format and reveal setting"
+        >
+          Restore Defaults
+        </Button>
+        <Button
+          onClick={() => copyToClipboard(shareUrl, 'link')}
+          variant="outline"
+          title="Only the configuration is shared, never results or keys"
+        >
+          Copy Link
+        </Button>
       </div>
 
       {/* Progress */}
-      <div className="grid grid-cols-3 gap-4 border-y border-gray-100 py-4 text-center dark:border-gray-800">
+      <div className="grid grid-cols-4 gap-4 border-y border-gray-100 py-4 text-center dark:border-gray-800">
         <div>
           <div className="font-mono text-2xl">{attempts.toLocaleString()}</div>
           <div className="text-xs text-gray-500 uppercase dark:text-gray-400">Attempts</div>
         </div>
         <div>
           <div className="font-mono text-2xl">
-            {results.length} / {config.count}
+            {options.goal === 'score'
+              ? (results[0]?.score ?? '-')
+              : `${results.length} / ${totalCount}`}
+          </div>
+          <div className="text-xs text-gray-500 uppercase dark:text-gray-400">
+            {options.goal === 'score' ? 'Best Score' : 'Found'}
           </div>
-          <div className="text-xs text-gray-500 uppercase dark:text-gray-400">Found</div>
         </div>
         <div>
           <div className="font-mono text-2xl">{speed.toLocaleString()}</div>
           <div className="text-xs text-gray-500 uppercase dark:text-gray-400">Attempts/Sec</div>
         </div>
+        <div>
+          <div className="font-mono text-2xl">{threads}</div>
+          <div className="text-xs text-gray-500 uppercase dark:text-gray-400">Threads</div>
+        </div>
       </div>
 
+      {estimate != null && estimate.remaining > 0 && (
+        <EstimatePanel
+          probability={estimate.probability}
+          remaining={estimate.remaining}
+          speed={speed}
+        />
+      )}
+
       {/* Results */}
       {results.length > 0 && (
-        <div className="space-y-4">
-          <div className="flex flex-col justify-between gap-4 md:flex-row md:items-center">
-            <h3 className="text-lg font-medium">Results</h3>
-            <div className="flex flex-col gap-2 md:flex-row md:items-center">
-              <div className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  id="exportConfirm"
-                  checked={exportConfirmed}
-                  onChange={e => setExportConfirmed(e.target.checked)}
-                  className="h-4 w-4 rounded border-gray-300 dark:border-gray-700 dark:bg-gray-900"
-                />
-                <label htmlFor="exportConfirm" className="text-xs text-gray-600 dark:text-gray-400">
-                  I understand private keys are sensitive and will not share them.
-                </label>
-              </div>
-              <div className="flex space-x-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  disabled={!exportConfirmed}
-                  onClick={() => exportToCSV(results)}
-                >
-                  Export CSV
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  disabled={!exportConfirmed}
-                  onClick={() => exportToJSON(results)}
-                >
-                  Export JSON
-                </Button>
-              </div>
-            </div>
-          </div>
-
-          <div className="overflow-hidden rounded-lg border border-gray-200 dark:border-gray-800">
-            <table className="w-full text-left text-sm">
-              <thead className="border-b border-gray-200 bg-gray-50 dark:border-gray-800 dark:bg-gray-900">
-                <tr>
-                  <th className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">#</th>
-                  <th className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">
-                    Address
-                  </th>
-                  <th className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">
-                    Private Key
-                  </th>
-                  <th className="px-4 py-2 text-right font-medium text-gray-900 dark:text-gray-100">
-                    Action
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
-                {results.map((r, i) => (
-                  <ResultRow key={i} index={i + 1} result={r} onCopy={copyToClipboard} />
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </div>
+        <ResultsTable
+          results={results}
+          patterns={patterns}
+          goal={options.goal}
+          canDelete={!isRunning}
+          onDelete={addresses =>
+            setResults(prev => prev.filter(result => !addresses.includes(result.address)))
+          }
+        />
       )}
     </div>
   )
 }
-
-function ResultRow({
-  index,
-  result,
-  onCopy,
-}: {
-  index: number
-  result: VanityResult
-  onCopy: (t: string, l: string) => void
-}) {
-  const [revealed, setRevealed] = useState(false)
-
-  return (
-    <tr className="transition-colors hover:bg-gray-50 dark:hover:bg-gray-800/50">
-      <td className="px-4 py-2 text-gray-500 dark:text-gray-400">{index}</td>
-      <td className="px-4 py-2 font-mono">{result.address}</td>
-      <td className="px-4 py-2 font-mono">
-        {revealed ? (
-          <span className="text-red-600 dark:text-red-400">{result.privateKey}</span>
-        ) : (
-          <span className="text-gray-400 dark:text-gray-600">
-            ••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••
-          </span>
-        )}
-      </td>
-      <td className="space-x-2 px-4 py-2 text-right">
-        <button
-          onClick={() => onCopy(result.address, 'Address')}
-          className="text-xs hover:underline dark:text-gray-300"
-        >
-          Copy Addr
-        </button>
-        <button
-          onClick={() => {
-            if (!revealed) {
-              if (confirm('Reveal private key? Ensure you are in a safe environment.')) {
-                setRevealed(true)
-              }
-            } else {
-              onCopy(result.privateKey, 'Private Key')
-            }
-          }}
-          className="text-xs text-red-600 hover:underline dark:text-red-400"
-        >
-          {revealed ? 'Copy PK' : 'Reveal'}
-        </button>
-      </td>
-    </tr>
-  )
-}